@@ -0,0 +1,235 @@
+// Deterministic stand-in for the external companion backend. The route handlers
+// in app/api, app/ask and app/generated_bvh use it so both front-ends work
+// offline: replies are scripted per character, the speech is always the bundled
+// public/sample.wav with its Rhubarb cues, and every motion is public/standing.bvh.
+//
+// The same prompt (and history) always produces the same reply, emotion and gestures.
+
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+
+export type MockEmotion = "neutral" | "happy" | "sad" | "excited" | "thinking" | "confused";
+
+export interface MockReply {
+  // Reply text with a leading [emotion] tag, as the real backend sends it
+  response: string;
+  emotion: MockEmotion;
+  mixamo_animation: string[];
+  bvh_files: string[];
+}
+
+export interface MockTurn {
+  role: "user" | "assistant";
+  text: string;
+}
+
+export interface MockSpeech {
+  audio_base64: string;
+  visemes: unknown;
+  viseme_format: "rhubarb";
+}
+
+const PUBLIC_DIR = path.join(process.cwd(), "public");
+
+type Rule = {
+  match: RegExp;
+  emotion: MockEmotion;
+  gestures: string[];
+  motion?: boolean;
+  reply: (name: string) => string;
+};
+
+// Checked in order; the first match wins
+const RULES: Rule[] = [
+  {
+    match: /\b(hi|hello|hey|howdy|good (morning|afternoon|evening))\b/i,
+    emotion: "happy",
+    gestures: ["Waving.fbx"],
+    reply: (name) => `Hello there! I'm ${name}. What would you like to talk about today?`,
+  },
+  {
+    match: /\b(thanks|thank you|cheers)\b/i,
+    emotion: "happy",
+    gestures: ["thumbsup.fbx"],
+    reply: () => "You're very welcome. Happy to help any time.",
+  },
+  {
+    match: /\b(dance|run|walk|jump|stand|move|show me)\b/i,
+    emotion: "excited",
+    gestures: [],
+    motion: true,
+    reply: () => "Sure, watch this!",
+  },
+  {
+    match: /\b(sad|upset|tired|bad day|lonely)\b/i,
+    emotion: "sad",
+    gestures: ["sad.fbx"],
+    reply: () => "I'm sorry to hear that. Do you want to tell me what happened?",
+  },
+  {
+    match: /\b(joke|funny|laugh)\b/i,
+    emotion: "excited",
+    gestures: ["laugh.fbx"],
+    reply: () => "Why did the skeleton stay home? It had no body to go out with!",
+  },
+];
+
+// Fallback lines per character (keys lower-cased); picked by a hash of the prompt
+const PERSONA_LINES: Record<string, { name: string; lines: string[] }> = {
+  harry: {
+    name: "Harry",
+    lines: [
+      "Magic is mostly practice, honestly. Even a simple spell takes a hundred tries.",
+      "That reminds me of something that happened at school once. It did not end well for the cauldron.",
+      "I'd ask Hermione about that. She has probably read three books on it already.",
+    ],
+  },
+  joy: {
+    name: "Joy",
+    lines: [
+      "Soak the pans first. Warm water and a little patience do most of the scrubbing for you.",
+      "A drop of vinegar in the rinse keeps glasses sparkling.",
+    ],
+  },
+  surf: {
+    name: "Surf",
+    lines: [
+      "A capful of fabric conditioner in the final rinse keeps towels soft without the build-up.",
+      "Fresh laundry is all about not overloading the drum.",
+    ],
+  },
+  teacher: {
+    name: "your teacher",
+    lines: [
+      "Good question. Let's break it into smaller steps and work through them together.",
+      "Try explaining it back to me in your own words. That's the best way to check you've got it.",
+    ],
+  },
+  dancer: {
+    name: "the dancer",
+    lines: [
+      "Rhythm first, steps second. Once you feel the beat the moves follow.",
+      "Stretch before anything else. Your muscles will thank you tomorrow.",
+    ],
+  },
+  police: {
+    name: "Officer",
+    lines: [
+      "Stay aware of your surroundings and keep your valuables out of sight.",
+      "If you ever feel unsafe, call for help straight away. That's what we're here for.",
+    ],
+  },
+  chef: {
+    name: "Chef",
+    lines: [
+      "Salt your pasta water generously. It should taste like the sea.",
+      "Let the pan get properly hot before the steak goes in. Patience makes the crust.",
+    ],
+  },
+};
+
+const DEFAULT_PERSONA = {
+  name: "your companion",
+  lines: [
+    "That's interesting. Tell me more.",
+    "I hadn't thought about it that way before.",
+    "Let me think about that for a moment. I'd say it depends on what matters most to you.",
+  ],
+};
+
+// Small stable string hash (FNV-1a) so replies are repeatable
+const hash = (text: string) => {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+};
+
+/** File name the mock motion generator reports for a prompt, e.g. "A_person_runs.bvh". */
+export const motionFileName = (prompt: string) => {
+  const slug = prompt.trim().replace(/[^a-z0-9]+/gi, "_").replace(/^_+|_+$/g, "").slice(0, 48);
+  return `${slug || "motion"}.bvh`;
+};
+
+// "What did I say?" style questions are answered from the conversation history
+const RECALL = /\b(remember|what did i (just )?(say|ask|tell you)|earlier)\b/i;
+
+/** Keep the well-formed turns of a request's `history`, ignoring anything else. */
+export const parseHistory = (value: unknown): MockTurn[] =>
+  Array.isArray(value)
+    ? value.filter(
+        (t): t is MockTurn =>
+          !!t && (t.role === "user" || t.role === "assistant") && typeof t.text === "string" && !!t.text.trim()
+      )
+    : [];
+
+export const scriptReply = (text: string, character?: string, history: MockTurn[] = []): MockReply => {
+  const persona = PERSONA_LINES[(character || "").toLowerCase()] || DEFAULT_PERSONA;
+  const prompt = (text || "").trim();
+  if (RECALL.test(prompt)) {
+    const last = [...history].reverse().find((t) => t.role === "user");
+    return last
+      ? {
+          response: `[happy] Of course. You said: "${last.text.trim()}"`,
+          emotion: "happy",
+          mixamo_animation: ["headnod.fbx"],
+          bvh_files: [],
+        }
+      : {
+          response: "[confused] I don't think you've told me anything yet. This is the start of our chat.",
+          emotion: "confused",
+          mixamo_animation: [],
+          bvh_files: [],
+        };
+  }
+  const rule = RULES.find((r) => r.match.test(prompt));
+  if (rule) {
+    return {
+      response: `[${rule.emotion}] ${rule.reply(persona.name)}`,
+      emotion: rule.emotion,
+      mixamo_animation: rule.gestures,
+      bvh_files: rule.motion ? [motionFileName(prompt)] : [],
+    };
+  }
+  const question = /\?\s*$/.test(prompt);
+  const line = persona.lines[hash(prompt.toLowerCase()) % persona.lines.length];
+  const emotion: MockEmotion = question ? "thinking" : "neutral";
+  return {
+    response: `[${emotion}] ${line}`,
+    emotion,
+    mixamo_animation: question ? ["headnod.fbx"] : [],
+    bvh_files: [],
+  };
+};
+
+/** Emotion named by a reply's leading [tag], for /ask which only sees the text. */
+export const emotionFromText = (text: string): MockEmotion => {
+  const tag = /\[(neutral|happy|sad|excited|thinking|confused)\]/i.exec(text || "");
+  return (tag?.[1].toLowerCase() as MockEmotion) || "neutral";
+};
+
+let speechPromise: Promise<MockSpeech> | null = null;
+
+/** The bundled speech clip and its Rhubarb cues, read once per server process. */
+export const loadSpeech = () => {
+  if (!speechPromise) {
+    speechPromise = Promise.all([
+      readFile(path.join(PUBLIC_DIR, "sample.wav")),
+      readFile(path.join(PUBLIC_DIR, "audio", "test-speech.json"), "utf8"),
+    ])
+      .then(([audio, cues]) => ({
+        audio_base64: audio.toString("base64"),
+        visemes: JSON.parse(cues),
+        viseme_format: "rhubarb" as const,
+      }))
+      .catch((err) => {
+        speechPromise = null;
+        throw err;
+      });
+  }
+  return speechPromise;
+};
+
+export const loadMotion = () => readFile(path.join(PUBLIC_DIR, "standing.bvh"), "utf8");
@@ -0,0 +1,52 @@
+// Mock of the companion backend's POST /api/companion (see app/api/_mock/responder.ts).
+// Answers with one JSON reply, or streams NDJSON events (companionStream.ts) when
+// the request asks for `stream: true` and accepts application/x-ndjson.
+// An optional `history` of prior turns lets the mock recall the conversation.
+
+import { loadSpeech, parseHistory, scriptReply } from "../_mock/responder";
+
+const encoder = new TextEncoder();
+const sleep = (ms: number) => new Promise((r) => setTimeout(r, ms));
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.text !== "string" || !body.text.trim()) {
+    return Response.json({ error: "Request body must include a non-empty 'text'" }, { status: 400 });
+  }
+
+  const reply = scriptReply(body.text, body.character, parseHistory(body.history));
+  const speech = await loadSpeech();
+  const accept = request.headers.get("accept") || "";
+
+  if (!body.stream || !/application\/(x-)?ndjson/i.test(accept)) {
+    return Response.json({ ...reply, ...speech });
+  }
+
+  // Text arrives word by word, then the (single) audio chunk with its cues
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: object) => controller.enqueue(encoder.encode(`${JSON.stringify(event)}\n`));
+      send({
+        type: "meta",
+        emotion: reply.emotion,
+        mixamo_animation: reply.mixamo_animation,
+        bvh_files: reply.bvh_files,
+      });
+      for (const word of reply.response.split(/(?<=\s)/)) {
+        send({ type: "text", delta: word });
+        await sleep(30);
+      }
+      send({
+        type: "audio",
+        audio_base64: speech.audio_base64,
+        visemes: speech.visemes,
+        viseme_format: speech.viseme_format,
+      });
+      send({ type: "done", response: reply.response });
+      controller.close();
+    },
+  });
+  return new Response(stream, {
+    headers: { "Content-Type": "application/x-ndjson; charset=utf-8", "Cache-Control": "no-store" },
+  });
+}
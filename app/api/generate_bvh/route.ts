@@ -0,0 +1,13 @@
+// Mock of POST /api/generate_bvh: "generates" one file per prompt. Every name
+// resolves to the bundled standing.bvh through app/generated_bvh/[file].
+
+import { motionFileName } from "../_mock/responder";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  const prompts: unknown = body?.prompts;
+  if (!Array.isArray(prompts) || prompts.some((p) => typeof p !== "string")) {
+    return Response.json({ error: "Request body must include 'prompts': string[]" }, { status: 400 });
+  }
+  return Response.json({ files_created: prompts.map((p: string) => motionFileName(p)) });
+}
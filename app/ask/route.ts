@@ -0,0 +1,13 @@
+// Mock of the backend's POST /ask text-to-speech endpoint: the bundled clip and
+// Rhubarb cues for any text, with the emotion taken from the reply's [tag].
+
+import { emotionFromText, loadSpeech } from "../api/_mock/responder";
+
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.text !== "string") {
+    return Response.json({ error: "Request body must include 'text'" }, { status: 400 });
+  }
+  const speech = await loadSpeech();
+  return Response.json({ ...speech, emotion: emotionFromText(body.text) });
+}
@@ -0,0 +1,100 @@
+// Real-time lip-sync derived from the audio signal itself.
+// Used when speech arrives without a viseme timeline: an AnalyserNode tapped off
+// the speech output gives loudness (-> jaw opening) and a coarse spectral shape
+// (-> viseme class) every frame.
+
+export interface LipSyncFrame {
+  // 0..1 jaw opening
+  jaw: number;
+  // Oculus-style viseme morph name, e.g. "viseme_aa"
+  viseme: string;
+}
+
+export interface AnalyserLipSyncOptions {
+  fftSize?: number;
+  // Levels below this fraction of the running peak count as silence
+  silenceGate?: number;
+  // Maximum jaw opening produced for the loudest speech
+  maxJaw?: number;
+}
+
+// Frequency bands (Hz) used to classify the mouth shape
+const BANDS = {
+  f1: [250, 900], // first formant: open vowels
+  f2: [900, 2500], // second formant: front vowels
+  hiss: [3500, 8000], // fricatives and sibilants
+} as const;
+
+export class AnalyserLipSync {
+  readonly analyser: AnalyserNode;
+  private timeData: Float32Array<ArrayBuffer>;
+  private freqData: Uint8Array<ArrayBuffer>;
+  private peak = 0.05;
+  private jaw = 0;
+  private readonly silenceGate: number;
+  private readonly maxJaw: number;
+
+  constructor(ctx: AudioContext, options: AnalyserLipSyncOptions = {}) {
+    this.analyser = ctx.createAnalyser();
+    this.analyser.fftSize = options.fftSize ?? 1024;
+    this.analyser.smoothingTimeConstant = 0.5;
+    this.timeData = new Float32Array(this.analyser.fftSize);
+    this.freqData = new Uint8Array(this.analyser.frequencyBinCount);
+    this.silenceGate = options.silenceGate ?? 0.12;
+    this.maxJaw = options.maxJaw ?? 0.5;
+  }
+
+  /** Forget the adaptive peak so the next utterance is normalised on its own level. */
+  reset() {
+    this.peak = 0.05;
+    this.jaw = 0;
+  }
+
+  private bandEnergy([lo, hi]: readonly [number, number]) {
+    const nyquist = this.analyser.context.sampleRate / 2;
+    const bins = this.freqData.length;
+    const from = Math.max(0, Math.floor((lo / nyquist) * bins));
+    const to = Math.min(bins - 1, Math.ceil((hi / nyquist) * bins));
+    let sum = 0;
+    for (let i = from; i <= to; i++) sum += this.freqData[i];
+    return sum / Math.max(1, to - from + 1) / 255;
+  }
+
+  /**
+   * Read the analyser and return the mouth pose for this frame.
+   * `delta` is the frame time in seconds, used for attack/release smoothing.
+   */
+  sample(delta: number): LipSyncFrame {
+    this.analyser.getFloatTimeDomainData(this.timeData);
+    this.analyser.getByteFrequencyData(this.freqData);
+
+    let sumSq = 0;
+    for (let i = 0; i < this.timeData.length; i++) sumSq += this.timeData[i] * this.timeData[i];
+    const rms = Math.sqrt(sumSq / this.timeData.length);
+
+    // Adaptive normalisation: track the running peak, let it decay slowly
+    this.peak = Math.max(rms, this.peak * Math.exp(-delta / 2.5), 0.02);
+    const level = rms / this.peak;
+
+    // Open fast, close a little slower so syllables don't flicker
+    const targetJaw = level < this.silenceGate ? 0 : Math.min(1, (level - this.silenceGate) / (1 - this.silenceGate)) * this.maxJaw;
+    const rate = targetJaw > this.jaw ? 30 : 14;
+    this.jaw += (targetJaw - this.jaw) * Math.min(1, delta * rate);
+
+    if (level < this.silenceGate) return { jaw: this.jaw, viseme: "viseme_sil" };
+
+    const f1 = this.bandEnergy(BANDS.f1);
+    const f2 = this.bandEnergy(BANDS.f2);
+    const hiss = this.bandEnergy(BANDS.hiss);
+    const voiced = f1 + f2 + 1e-4;
+
+    let viseme: string;
+    if (hiss / voiced > 0.6) viseme = level < 0.5 ? "viseme_SS" : "viseme_CH";
+    else if (hiss / voiced > 0.35 && level < 0.4) viseme = "viseme_FF";
+    else if (f2 / f1 > 1.15) viseme = targetJaw < 0.2 ? "viseme_I" : "viseme_E";
+    else if (f2 / f1 < 0.45) viseme = targetJaw < 0.2 ? "viseme_U" : "viseme_O";
+    else viseme = targetJaw < 0.12 ? "viseme_DD" : "viseme_aa";
+
+    return { jaw: this.jaw, viseme };
+  }
+}
@@ -0,0 +1,42 @@
+import * as THREE from "three";
+import { describe, expect, it } from "vitest";
+import { maskClip } from "./AnimationLayers";
+import { detectRig } from "./retargeting";
+
+const clipFor = (bones: string[]) =>
+  new THREE.AnimationClip(
+    "gesture",
+    1,
+    bones.flatMap((bone) => [
+      new THREE.QuaternionKeyframeTrack(`${bone}.quaternion`, [0, 1], [0, 0, 0, 1, 0, 0, 0, 1]),
+      new THREE.VectorKeyframeTrack(`${bone}.position`, [0, 1], [0, 0, 0, 0, 0, 0]),
+    ])
+  );
+
+const kept = (clip: THREE.AnimationClip) => clip.tracks.map((t) => t.name.split(".")[0]);
+
+describe("maskClip", () => {
+  const vrm = [
+    "J_Bip_C_Hips",
+    "J_Bip_C_Spine",
+    "J_Bip_C_Neck",
+    "J_Bip_C_Head",
+    "J_Bip_L_UpperArm",
+    "J_Bip_L_Hand",
+    "J_Bip_L_UpperLeg",
+  ];
+
+  it("resolves masks through the rig's humanoid roles", () => {
+    const rig = detectRig(vrm);
+    expect(rig.convention).toBe("vrm");
+    expect(kept(maskClip(clipFor(vrm), "arms", rig))).toEqual(["J_Bip_L_UpperArm", "J_Bip_L_Hand"]);
+    expect(kept(maskClip(clipFor(vrm), "head", rig))).toEqual(["J_Bip_C_Neck", "J_Bip_C_Head"]);
+    expect(kept(maskClip(clipFor(vrm), "upperBody", rig))).toEqual(vrm.slice(1, 6));
+  });
+
+  it("keeps every rotation for fullBody and drops positions", () => {
+    const bones = ["Hips", "Spine", "LeftUpLeg", "HeadTop_End"];
+    const masked = maskClip(clipFor(bones), "fullBody", detectRig(bones));
+    expect(masked.tracks.map((t) => t.name)).toEqual(bones.map((bone) => `${bone}.quaternion`));
+  });
+});
@@ -0,0 +1,187 @@
+// Layered playback on top of the character's AnimationMixer.
+//
+//   base     normal-blend actions (idle, talking, typing, BVH) owned by ThreeCanvas
+//   gesture  additive one-shots restricted to a bone mask, so the base keeps
+//            playing underneath: legs stay planted and idle breathing continues
+//   face     morph-target tracks pulled out of clips, sampled each frame and
+//            blended over the procedural blink/viseme/emotion weights
+
+import * as THREE from "three";
+import { trackTarget, type HumanoidBone, type Rig } from "./retargeting";
+
+export type BoneMask = "fullBody" | "upperBody" | "arms" | "head";
+export type AnimationLayer = "gesture" | "face";
+
+export interface GestureOptions {
+  // Bones the gesture may move; defaults to everything from the spine up
+  mask?: BoneMask;
+  fadeIn?: number;
+  fadeOut?: number;
+  weight?: number;
+}
+
+// Humanoid roles (see retargeting.ts) each mask lets move; fullBody lets every bone move
+const HEAD_ROLES = ["neck", "head"];
+const ARM_ROLES = ["left", "right"].flatMap((side) =>
+  ["Shoulder", "UpperArm", "LowerArm", "Hand"].map((part) => `${side}${part}`)
+);
+const FINGER_ROLE = /^(left|right)(Thumb|Index|Middle|Ring|Little)/;
+
+export const MASK_ROLES: Record<Exclude<BoneMask, "fullBody">, (role: HumanoidBone) => boolean> = {
+  upperBody: (role) =>
+    ["spine", "chest", "upperChest"].includes(role) || MASK_ROLES.arms(role) || MASK_ROLES.head(role),
+  arms: (role) => ARM_ROLES.includes(role) || FINGER_ROLE.test(role),
+  head: (role) => HEAD_ROLES.includes(role),
+};
+
+/** Names of the bones of `rig` inside `mask`; null for fullBody, which keeps every bone. */
+export const maskBones = (rig: Rig, mask: BoneMask): Set<string> | null => {
+  if (mask === "fullBody") return null;
+  const inMask = MASK_ROLES[mask];
+  return new Set(
+    Object.entries(rig.bones)
+      .filter(([role, bone]) => bone && inMask(role))
+      .map(([, bone]) => bone as string)
+  );
+};
+
+const MORPH_TRACK = /\.morphTargetInfluences\[(.+)\]$/;
+
+/** Split a clip into its skeletal tracks and its face (morph target) tracks. */
+export const splitFaceTracks = (clip: THREE.AnimationClip) => {
+  const body: THREE.KeyframeTrack[] = [];
+  const face: THREE.KeyframeTrack[] = [];
+  for (const track of clip.tracks) (MORPH_TRACK.test(track.name) ? face : body).push(track);
+  return {
+    body: new THREE.AnimationClip(clip.name, clip.duration, body),
+    face: new THREE.AnimationClip(`${clip.name}.face`, clip.duration, face),
+  };
+};
+
+/**
+ * Copy of `clip` (already retargeted onto `rig`) with only the rotation tracks
+ * of bones inside `mask`. Positions are dropped too: bone offsets differ between
+ * rigs and would stretch limbs.
+ */
+export const maskClip = (clip: THREE.AnimationClip, mask: BoneMask, rig: Rig) => {
+  const keep = maskBones(rig, mask);
+  const tracks = clip.tracks
+    .filter((t) => t.name.endsWith(".quaternion") && (!keep || keep.has(trackTarget(t.name).bone)))
+    .map((t) => t.clone());
+  return new THREE.AnimationClip(`${clip.name}[${mask}]`, clip.duration, tracks);
+};
+
+type FaceClip = {
+  tracks: Array<{ morph: string; interpolant: THREE.Interpolant }>;
+  start: number;
+  duration: number;
+  fade: number;
+  weight: number;
+};
+
+export class AnimationLayers {
+  private mixer: THREE.AnimationMixer;
+  // The character's rig, which gesture masks are resolved against
+  private rig: Rig;
+  private root?: THREE.Object3D;
+  private weights: Record<AnimationLayer, number> = { gesture: 1, face: 1 };
+  // Running gestures and the callbacks that settle their playGesture() promises
+  private gestures = new Map<THREE.AnimationAction, () => void>();
+  private faceClips: FaceClip[] = [];
+
+  constructor(mixer: THREE.AnimationMixer, rig: Rig, root?: THREE.Object3D) {
+    this.mixer = mixer;
+    this.rig = rig;
+    this.root = root;
+  }
+
+  setLayerWeight(layer: AnimationLayer, weight: number) {
+    this.weights[layer] = THREE.MathUtils.clamp(weight, 0, 1);
+    if (layer === "gesture") {
+      this.gestures.forEach((_, action) => action.setEffectiveWeight(this.weights.gesture));
+    }
+  }
+
+  get isGesturing() {
+    return this.gestures.size > 0;
+  }
+
+  /**
+   * Play a gesture once as an additive layer over whatever the base is doing.
+   * The clip is masked, then made relative to its own first frame, so only the
+   * motion of the gesture is added. Resolves when the clip reaches its end; it
+   * then fades out while the next gesture (if any) fades in.
+   */
+  playGesture(clip: THREE.AnimationClip, options: GestureOptions = {}): Promise<void> {
+    const { mask = "upperBody", fadeIn = 0.25, fadeOut = 0.35, weight = 1 } = options;
+    const { body, face } = splitFaceTracks(clip);
+    if (face.tracks.length > 0) this.playFace(face, fadeIn, weight);
+
+    const additive = THREE.AnimationUtils.makeClipAdditive(maskClip(body, mask, this.rig));
+    if (additive.tracks.length === 0) return Promise.resolve();
+    const action = this.mixer.clipAction(additive, this.root);
+    action.blendMode = THREE.AdditiveAnimationBlendMode;
+    action.setLoop(THREE.LoopOnce, 1);
+    action.clampWhenFinished = true;
+    action.reset().setEffectiveWeight(weight * this.weights.gesture).fadeIn(fadeIn).play();
+
+    return new Promise<void>((resolve) => {
+      const onFinished = (e: any) => {
+        if (e.action !== action) return;
+        this.mixer.removeEventListener("finished", onFinished);
+        action.fadeOut(fadeOut);
+        setTimeout(() => this.release(action), fadeOut * 1000);
+        resolve();
+      };
+      this.mixer.addEventListener("finished", onFinished);
+      this.gestures.set(action, () => {
+        this.mixer.removeEventListener("finished", onFinished);
+        resolve();
+      });
+    });
+  }
+
+  /** Stop every gesture immediately, e.g. before mixer.stopAllAction(). */
+  stopGestures() {
+    for (const [action, settle] of Array.from(this.gestures)) {
+      settle();
+      this.release(action);
+    }
+    this.faceClips = [];
+  }
+
+  private release(action: THREE.AnimationAction) {
+    if (!this.gestures.delete(action)) return;
+    action.stop();
+    this.mixer.uncacheAction(action.getClip(), this.root);
+  }
+
+  /** Queue morph tracks on the face layer; they play on the mixer's clock. */
+  playFace(clip: THREE.AnimationClip, fade = 0.2, weight = 1) {
+    const tracks = clip.tracks
+      .map((track) => ({ morph: MORPH_TRACK.exec(track.name)?.[1], interpolant: track.createInterpolant() }))
+      .filter((t): t is { morph: string; interpolant: THREE.Interpolant } => !!t.morph);
+    if (tracks.length === 0) return;
+    this.faceClips.push({ tracks, start: this.mixer.time, duration: clip.duration, fade, weight });
+  }
+
+  /**
+   * Face-layer morph weights for the current mixer time, each paired with how
+   * strongly it should override the procedural value (fade envelope × weight).
+   */
+  sampleFace(): Record<string, { value: number; blend: number }> {
+    const out: Record<string, { value: number; blend: number }> = {};
+    const now = this.mixer.time;
+    this.faceClips = this.faceClips.filter((c) => now - c.start <= c.duration);
+    for (const clip of this.faceClips) {
+      const t = now - clip.start;
+      const fade = clip.fade > 0 ? Math.min(1, t / clip.fade, (clip.duration - t) / clip.fade) : 1;
+      const blend = THREE.MathUtils.clamp(fade * clip.weight * this.weights.face, 0, 1);
+      for (const { morph, interpolant } of clip.tracks) {
+        const value = interpolant.evaluate(t)[0];
+        if (!out[morph] || blend > out[morph].blend) out[morph] = { value, blend };
+      }
+    }
+    return out;
+  }
+}
@@ -0,0 +1,122 @@
+// Small declarative state machine for the character's base animation.
+// States own their actions through entry/exit hooks (fade in on enter, fade out
+// on exit); transitions declare which moves are allowed, their guards and the
+// crossfade duration handed to the hooks. Every change is kept in a short
+// history so the current pose can be explained when debugging.
+
+export interface TransitionInfo<S extends string> {
+  from: S;
+  to: S;
+  // Crossfade duration in seconds for the hooks to use
+  fade: number;
+  reason?: string;
+}
+
+export interface AnimationStateDef<S extends string> {
+  onEnter?: (t: TransitionInfo<S>) => void;
+  onExit?: (t: TransitionInfo<S>) => void;
+}
+
+export interface TransitionDef<S extends string> {
+  from: S | S[] | "*";
+  to: S;
+  fade: number;
+  // Extra condition checked at transition time
+  guard?: (t: TransitionInfo<S>) => boolean;
+}
+
+export interface TransitionRecord<S extends string> extends TransitionInfo<S> {
+  at: number;
+  // Forced transitions bypass the table (e.g. a hard reset)
+  forced?: boolean;
+}
+
+export interface AnimationStateMachineConfig<S extends string> {
+  initial: S;
+  states: Record<S, AnimationStateDef<S>>;
+  transitions: TransitionDef<S>[];
+  historyLimit?: number;
+}
+
+export interface TransitionOptions {
+  reason?: string;
+  // Override the table's crossfade duration
+  fade?: number;
+}
+
+export class AnimationStateMachine<S extends string> {
+  private current: S;
+  private config: AnimationStateMachineConfig<S>;
+  private log: TransitionRecord<S>[] = [];
+  private historyLimit: number;
+
+  constructor(config: AnimationStateMachineConfig<S>) {
+    this.config = config;
+    this.current = config.initial;
+    this.historyLimit = config.historyLimit ?? 50;
+  }
+
+  get state(): S {
+    return this.current;
+  }
+
+  is(...states: S[]) {
+    return states.includes(this.current);
+  }
+
+  /** Most recent transitions, oldest first. */
+  get history(): readonly TransitionRecord<S>[] {
+    return this.log;
+  }
+
+  private find(to: S, options: TransitionOptions) {
+    for (const def of this.config.transitions) {
+      if (def.to !== to) continue;
+      const fromOk =
+        def.from === "*" || (Array.isArray(def.from) ? def.from.includes(this.current) : def.from === this.current);
+      if (!fromOk) continue;
+      const info: TransitionInfo<S> = { from: this.current, to, fade: options.fade ?? def.fade, reason: options.reason };
+      if (def.guard && !def.guard(info)) continue;
+      return info;
+    }
+    return null;
+  }
+
+  can(to: S, options: TransitionOptions = {}) {
+    return to !== this.current && !!this.find(to, options);
+  }
+
+  /**
+   * Move to `to` if the table allows it from the current state.
+   * Returns false (and changes nothing) when no transition matches.
+   */
+  transition(to: S, options: TransitionOptions = {}): boolean {
+    if (to === this.current) return false;
+    const info = this.find(to, options);
+    if (!info) return false;
+    this.apply(info, false);
+    return true;
+  }
+
+  /** Enter `to` regardless of the table, re-entering it if already there. */
+  force(to: S, options: TransitionOptions & { fade: number }) {
+    this.apply({ from: this.current, to, fade: options.fade, reason: options.reason }, true);
+  }
+
+  private apply(info: TransitionInfo<S>, forced: boolean) {
+    // The state changes before the hooks run so a hook may chain another transition
+    this.current = info.to;
+    this.log.push({ ...info, at: performance.now(), forced: forced || undefined });
+    if (this.log.length > this.historyLimit) this.log.shift();
+    try {
+      this.config.states[info.from].onExit?.(info);
+    } catch (err) {
+      console.warn(`AnimationStateMachine: exit hook for "${info.from}" failed`, err);
+    }
+    try {
+      this.config.states[info.to].onEnter?.(info);
+    } catch (err) {
+      console.warn(`AnimationStateMachine: entry hook for "${info.to}" failed`, err);
+    }
+  }
+}
@@ -1,11 +1,16 @@
 // src/app/components/CharacterController.tsx
 "use client";
 
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useEffect } from "react";
 import ThreeCanvas from "./ThreeCanvas";
 import styles from "./CharacterController.module.css";
 // Make sure to import the Emotion type as well
 import type { ThreeCanvasHandles, Emotion } from "./ThreeCanvas";
+import { getVisemeProfile } from "./visemeProfiles";
+import { parseVisemePayload } from "./visemeFormats";
+import { companionClient, isCancellation } from "./CompanionClient";
+import { loadCharacterManifest, type CharacterDefinition } from "./characterManifest";
+import { BUILTIN_BACKGROUNDS, DEFAULT_BACKGROUND, findBackground } from "./backgrounds";
 
 // Remove bracketed tokens like [Wave] or [Talkinganimation] for UI display
 const sanitizeResponse = (text: string | null | undefined) => {
@@ -13,63 +18,6 @@ const sanitizeResponse = (text: string | null | undefined) => {
   return String(text).replace(/\[[^\]]*\]/g, "").replace(/\s+/g, " ").trim();
 };
 
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-// Character and background definitions
-const characters = {
-  harry: {
-    name: "Harry (The Potter)",
-    modelUrl: "/models/Harry.glb",
-    introAnimationUrl: "/idleanimations/harryuniqueidle.fbx",
-    idleAnimationUrl: "/idleanimations/StandIdle.fbx",
-    interruptAnimationUrl: "/idleanimations/StandIdle.fbx",
-    animationUrl: "/idleanimations/StandIdle.fbx",
-    talkingAnimationUrl1: "/talkinganimations/Talking2.fbx",
-    talkingAnimationUrl2: "/talkinganimations/Talking2.fbx",
-  },
-  Joy: {
-    name: "Joy (Dishwashing Expert)",
-    modelUrl: "/models/Joy.glb",
-    introAnimationUrl: "/idleanimations/Joyuniqueidle.fbx",
-    idleAnimationUrl: "/idleanimations/StandIdle.fbx",
-    interruptAnimationUrl: "/idleanimations/InterruptIdle.fbx",
-    animationUrl: "/idleanimations/Stretching.fbx",
-    talkingAnimationUrl1: "/talkinganimations/Talking2.fbx",
-    talkingAnimationUrl2: "/talkinganimations/Talking2.fbx",
-  },
-  Surf: {
-    name: "Surf (Fabcon Expert)",
-    modelUrl: "/models/Surf.glb",
-    introAnimationUrl: "/idleanimations/Surfuniqueidle.fbx",
-    idleAnimationUrl: "/idleanimations/StandIdle.fbx",
-    interruptAnimationUrl: "/idleanimations/Stretching.fbx",
-    animationUrl: "/idleanimations/Stretching.fbx",
-    talkingAnimationUrl1: "/talkinganimations/Talking2.fbx",
-    talkingAnimationUrl2: "/talkinganimations/Talking2.fbx",
-    thinkingAnimationUrl: "/idleanimations/Looking.fbx",
-  },
-};
-const backgrounds = {
-  studio: { name: "Studio", url: null, color: 0xffffff },
-  forest: { name: "Forest", url: "/textures/forest/forestbg.jpg" },
-  city: { name: "City at Night", url: "/textures/city/cyberbg.jpg" },
-};
-type CharacterKey = keyof typeof characters;
-type BackgroundKey = keyof typeof backgrounds;
-type RawVisemeCue = { start: number; end: number; value: string };
-
-const rhubarbToVisemeMap: { [key: string]: { viseme: string; jaw: number } } = {
-  X: { viseme: "viseme_sil", jaw: 0 },
-  A: { viseme: "viseme_aa", jaw: 0.2 },
-  B: { viseme: "viseme_PP", jaw: 0 },
-  C: { viseme: "viseme_E", jaw: 0.2 },
-  D: { viseme: "viseme_DD", jaw: 0.1 },
-  E: { viseme: "viseme_E", jaw: 0.1 },
-  F: { viseme: "viseme_FF", jaw: 0.1 },
-  G: { viseme: "viseme_kk", jaw: 0.2 },
-  H: { viseme: "viseme_O", jaw: 0.3 },
-};
-
 export default function CharacterController() {
   const [talkPrompt, setTalkPrompt] = useState("");
   const [motionPrompt, setMotionPrompt] = useState("");
@@ -80,15 +28,67 @@ export default function CharacterController() {
   const [status, setStatus] = useState("Ready");
   const [chatMessage, setChatMessage] = useState("");
   const [isChatVisible, setIsChatVisible] = useState(false);
-  const [selectedCharKey, setSelectedCharKey] = useState<CharacterKey>("harry");
-  const [selectedBgKey, setSelectedBgKey] = useState<BackgroundKey>("studio");
+  const [characters, setCharacters] = useState<CharacterDefinition[]>([]);
+  const [selectedCharKey, setSelectedCharKey] = useState("harry");
+  const [selectedBgKey, setSelectedBgKey] = useState(DEFAULT_BACKGROUND.id);
 
   const canvasRef = useRef<ThreeCanvasHandles>(null);
   const lastGeneratedFiles = useRef<string[]>([]);
+  // Aborts the talk or motion request in flight
+  const requestRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCharacterManifest()
+      .then(({ characters }) => {
+        if (cancelled) return;
+        setCharacters(characters);
+        setSelectedCharKey((key) => (characters.some((c) => c.id === key) ? key : characters[0].id));
+      })
+      .catch((e) => {
+        console.error("Failed to load characters", e);
+        if (!cancelled) setStatus(`Error: ${e instanceof Error ? e.message : String(e)}`);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  const selectedCharacter = characters.find((c) => c.id === selectedCharKey);
+  const selectedBackground = findBackground(selectedBgKey) ?? DEFAULT_BACKGROUND;
+  const visemeProfile = getVisemeProfile(selectedCharacter?.visemeProfile);
+
+  const selectCharacter = (character: CharacterDefinition) => {
+    setSelectedCharKey(character.id);
+    const background = character.defaultBackground;
+    if (background && findBackground(background)) setSelectedBgKey(background);
+  };
+
+  const beginRequest = () => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    return controller;
+  };
+
+  // Cancel button: abort the request, stop speech and motion, back to idle
+  const handleCancel = () => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    canvasRef.current?.cancelSpeech?.();
+    canvasRef.current?.resetToIdle?.();
+    setIsSubmittingTalk(false);
+    setIsGeneratingMotion(false);
+    setIsAudioPlaying(false);
+    setIsChatVisible(false);
+    setStatus("Cancelled");
+  };
 
   const handleTalk = async () => {
     if (isSubmittingTalk || !talkPrompt.trim()) return;
 
+    const controller = beginRequest();
+    const { signal } = controller;
     setIsSubmittingTalk(true);
     setStatus("Thinking...");
     setChatMessage("");
@@ -102,21 +102,14 @@ export default function CharacterController() {
         console.warn('Failed to reset character to idle on submit', e);
       }
 
-      const companionResponse = await fetch(`${BACKEND_URL}/api/companion`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          text: talkPrompt,
-          character: selectedCharKey,
-          background: selectedBgKey,
-        }),
-      });
-      if (!companionResponse.ok)
-        throw new Error(`API failed: ${companionResponse.status}`);
-  const companionJson = await companionResponse.json();
-  console.log("CharacterController: full companion JSON:", companionJson);
-  const { response: answer, mixamo_animation } = companionJson;
-      if (!answer) throw new Error("Invalid response from companion");
+      const request = {
+        character: selectedCharKey,
+        background: selectedBgKey,
+        voice: selectedCharacter?.voice ?? undefined,
+      };
+      const reply = await companionClient.reply({ ...request, text: talkPrompt }, { signal });
+  console.log("CharacterController: companion reply:", reply);
+  const { text: answer, gestures } = reply;
 
   setChatMessage(sanitizeResponse(answer));
       // If the backend returned a Mixamo gesture name, tell the canvas to play it.
@@ -124,40 +117,32 @@ export default function CharacterController() {
       setStatus("Generating audio...");
       setTalkPrompt("");
 
-      const audioResponse = await fetch(`${BACKEND_URL}/ask`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
-          text: answer,
-          character: selectedCharKey,
-          background: selectedBgKey,
-        }),
-      });
-      if (!audioResponse.ok) throw new Error("TTS API failed");
-      const audioJson = await audioResponse.json();
-      const { audio_base64, visemes, emotion } = audioJson; // Expect emotion from backend
+      // Backends that already spoke the reply save the /ask round trip
+      const speech = reply.speech
+        ? { ...reply.speech, emotion: reply.emotion }
+        : await companionClient.speak(answer, request, { signal });
+      // Raw TTS cues (Rhubarb, Azure or Polly); map them through the character's profile
+      const visemes = parseVisemePayload(speech.visemes, visemeProfile, speech.visemeFormat);
 
-  if (canvasRef.current && audio_base64) {
+  if (canvasRef.current) {
         setIsAudioPlaying(true);
         setStatus("Talking...");
 
         // --- FIX 1: Use the correct function and pass the emotion ---
-        const audioDataUri = `data:audio/mp3;base64,${audio_base64}`;
+        const audioDataUri = `data:audio/mp3;base64,${speech.audioBase64}`;
         // Start speech in parallel with any gestures
         const speechPromise = canvasRef.current.playAudioWithEmotionAndLipSync(
           audioDataUri,
-          visemes || [],
-          emotion || "neutral"
+          visemes,
+          speech.emotion,
+          { text: answer }
         );
 
         // If backend suggested a Mixamo gesture (string or array), play it as overlay(s)
-        if (mixamo_animation && canvasRef.current.playGestures) {
+        if (gestures.length > 0 && canvasRef.current.playGestures) {
           try {
-            const urls = Array.isArray(mixamo_animation)
-              ? mixamo_animation
-              : [mixamo_animation];
             // Convert backend paths (/gesturesanimation/Waving.fbx) to frontend URLs if necessary
-            const converted = urls.map((p) => (p.startsWith('/') ? p : `/gesturesanimation/${p}`));
+            const converted = gestures.map((p) => (p.startsWith('/') ? p : `/gesturesanimation/${p}`));
             console.log('CharacterController: playing gestures', converted);
             // Play gestures but don't await here so they overlay the talking animation
             canvasRef.current.playGestures(converted).catch((e) => console.warn(e));
@@ -167,37 +152,49 @@ export default function CharacterController() {
         }
 
         await speechPromise;
+        // Cancelled mid-sentence: handleCancel already reset the UI
+        if (signal.aborted) return;
 
         setIsAudioPlaying(false);
       }
       setStatus("Completed");
       setTimeout(() => setIsChatVisible(false), 2000);
     } catch (error) {
+      if (isCancellation(error) || signal.aborted) return;
       const msg = error instanceof Error ? error.message : "Unknown error";
       setStatus(`Error: ${msg}`);
       setChatMessage(msg);
+      setIsAudioPlaying(false);
+      canvasRef.current?.cancelSpeech?.();
+      canvasRef.current?.resetToIdle?.();
     } finally {
-      setIsSubmittingTalk(false);
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setIsSubmittingTalk(false);
+      }
     }
   };
 
   const handleGenerateMotion = async () => {
     if (isGeneratingMotion || !motionPrompt.trim()) return;
 
+    const controller = beginRequest();
+    const { signal } = controller;
     setIsGeneratingMotion(true);
     setStatus("Requesting animation from server...");
 
     try {
       // 1. Fetch the BVH file names from the backend.
       const { bvhPlayer } = await import("./BVHAnimationPlayer");
-      const generatedFiles = await bvhPlayer.generateBVHAnimations(BACKEND_URL ?? "", [motionPrompt]);
+      const generatedFiles = await bvhPlayer.generateBVHAnimations(companionClient.baseUrl, [motionPrompt], { signal });
       
       if (!generatedFiles || generatedFiles.length === 0) {
         throw new Error("Backend did not return any BVH files.");
       }
 
+      if (signal.aborted) return;
       lastGeneratedFiles.current = generatedFiles;
-      const bvhUrls = generatedFiles.map(file => `${BACKEND_URL}/generated_bvh/${file}`);
+      const bvhUrls = generatedFiles.map(file => companionClient.motionUrl(file));
       
       setStatus("Playing generated motion...");
 
@@ -211,17 +208,22 @@ export default function CharacterController() {
               model: animationObjects.model,
               idleAction: animationObjects.idleAction
           }, bvhUrls);
-          setStatus("Motion completed.");
+          if (!signal.aborted) setStatus("Motion completed.");
         } else {
           throw new Error("Could not retrieve necessary animation objects from ThreeCanvas.");
         }
       }
     } catch (error) {
+      if (isCancellation(error) || signal.aborted) return;
       const msg = error instanceof Error ? error.message : "Unknown error";
       setStatus(`Error: ${msg}`);
       console.error("Error during motion generation:", error);
+      canvasRef.current?.resetToIdle?.();
     } finally {
-      setIsGeneratingMotion(false);
+      if (requestRef.current === controller) {
+        requestRef.current = null;
+        setIsGeneratingMotion(false);
+      }
     }
   };
 
@@ -241,18 +243,7 @@ export default function CharacterController() {
           `Failed to load test-speech.json: ${response.statusText}`
         );
       const rhubarbData = await response.json();
-      const visemes = rhubarbData.mouthCues.map((cue: RawVisemeCue) => {
-        const entry = rhubarbToVisemeMap[cue.value] || rhubarbToVisemeMap["X"];
-        return {
-          time: cue.start,
-          value: entry.viseme,
-          jaw: entry.jaw,
-        };
-      });
-      if (visemes.length > 0) {
-        const lastCue = rhubarbData.mouthCues[rhubarbData.mouthCues.length - 1];
-        visemes.push({ time: lastCue.end, value: "viseme_sil", jaw: 0 });
-      }
+      const visemes = parseVisemePayload(rhubarbData, visemeProfile);
       setStatus("Playing test audio...");
       const audioRes = await fetch("/sample.wav");
       const audioBlob = await audioRes.blob();
@@ -283,8 +274,6 @@ export default function CharacterController() {
     }
   };
 
-  const selectedCharacter = characters[selectedCharKey];
-  const selectedBackground = backgrounds[selectedBgKey];
 
   return (
     <>
@@ -293,17 +282,17 @@ export default function CharacterController() {
           <div className={styles.section}>
             <h2>Choose a Character</h2>
             <div className={styles.buttonGroup}>
-              {(Object.keys(characters) as CharacterKey[]).map((key) => (
+              {characters.map((character) => (
                 <button
-                  key={key}
-                  onClick={() => setSelectedCharKey(key)}
+                  key={character.id}
+                  onClick={() => selectCharacter(character)}
                   className={
-                    selectedCharKey === key
+                    selectedCharKey === character.id
                       ? styles.activeButton
                       : styles.button
                   }
                 >
-                  {characters[key].name}
+                  {character.name}
                 </button>
               ))}
             </div>
@@ -311,15 +300,15 @@ export default function CharacterController() {
           <div className={styles.section}>
             <h2>Choose a Background</h2>
             <div className={styles.buttonGroup}>
-              {(Object.keys(backgrounds) as BackgroundKey[]).map((key) => (
+              {BUILTIN_BACKGROUNDS.map((background) => (
                 <button
-                  key={key}
-                  onClick={() => setSelectedBgKey(key)}
+                  key={background.id}
+                  onClick={() => setSelectedBgKey(background.id)}
                   className={
-                    selectedBgKey === key ? styles.activeButton : styles.button
+                    selectedBgKey === background.id ? styles.activeButton : styles.button
                   }
                 >
-                  {backgrounds[key].name}
+                  {background.name}
                 </button>
               ))}
             </div>
@@ -344,6 +333,11 @@ export default function CharacterController() {
                   ? "Talking..."
                   : "Talk"}
               </button>
+              {isSubmittingTalk && (
+                <button className={styles.cancelButton} onClick={handleCancel}>
+                  Cancel
+                </button>
+              )}
             </div>
             <div className={styles.inputGroup}>
               <input
@@ -359,6 +353,11 @@ export default function CharacterController() {
               >
                 {isGeneratingMotion ? "Generating..." : "Generate Motion"}
               </button>
+              {isGeneratingMotion && (
+                <button className={styles.cancelButton} onClick={handleCancel}>
+                  Cancel
+                </button>
+              )}
             </div>
             <div
               className={styles.section}
@@ -383,18 +382,24 @@ export default function CharacterController() {
           )}
         </div>
         <div className={styles.rightPanel}>
-          <ThreeCanvas
-            ref={canvasRef}
-            characterModelUrl={selectedCharacter.modelUrl}
-            introAnimationUrl={selectedCharacter.introAnimationUrl}
-            idleAnimationUrl={selectedCharacter.idleAnimationUrl}
-            interruptAnimationUrl={selectedCharacter.interruptAnimationUrl}
-            animationUrl={selectedCharacter.animationUrl}
-            talkingAnimationUrl1={selectedCharacter.talkingAnimationUrl1}
-            talkingAnimationUrl2={selectedCharacter.talkingAnimationUrl2}
-            // --- FIX 3: Remove the invalid prop ---
-            backgroundData={selectedBackground}
-          />
+          {selectedCharacter && (
+            <ThreeCanvas
+              ref={canvasRef}
+              characterModelUrl={selectedCharacter.modelUrl}
+              introAnimationUrl={selectedCharacter.introAnimationUrl ?? undefined}
+              idleAnimationUrl={selectedCharacter.idleAnimationUrls}
+              interruptAnimationUrl={selectedCharacter.interruptAnimationUrl ?? undefined}
+              animationUrl={selectedCharacter.ambientAnimationUrl ?? undefined}
+              typingAnimationUrl={selectedCharacter.typingAnimationUrl ?? undefined}
+              talkingAnimationUrl1={selectedCharacter.talkingAnimationUrls[0]}
+              talkingAnimationUrl2={selectedCharacter.talkingAnimationUrls[1]}
+              // --- FIX 3: Remove the invalid prop ---
+              backgroundData={selectedBackground}
+              visemeProfile={visemeProfile}
+              emotionOverrides={selectedCharacter.emotionOverrides}
+              retargetOverrides={selectedCharacter.retarget ?? undefined}
+            />
+          )}
         </div>
       </div>
     </>
@@ -0,0 +1,461 @@
+// Typed client for the companion backend (or the bundled mock in app/api).
+//
+// Supports both call flows the front-ends use:
+//   chat()          one POST /api/companion returning text, speech and motion,
+//                   streamed (companionStream.ts) when the server supports it
+//   reply()+speak() POST /api/companion for the text, then POST /ask for its speech
+//
+// Every payload is validated at runtime and normalised into the versioned types
+// below; failures surface as one of the CompanionError subclasses.
+//
+// Each request has a timeout (for streams: the longest gap between events) and
+// takes an optional AbortSignal. Idempotent calls (/ask) are retried with
+// exponential backoff on network errors, timeouts and 408/429/5xx answers.
+
+import { EMOTIONS, type Emotion } from "./ThreeCanvas";
+import { isStreamingResponse, readCompanionStream, STREAM_ACCEPT, type CompanionStreamEvent } from "./companionStream";
+import type { RawVisemePayload } from "./visemeFormats";
+
+// Bump when the backend contract changes; responses may carry `api_version`
+export const COMPANION_API_VERSION = 1;
+
+// One earlier turn of the conversation, oldest first in CompanionRequest.history
+export interface CompanionTurn {
+  role: "user" | "assistant";
+  text: string;
+}
+
+export interface CompanionRequest {
+  text: string;
+  character: string;
+  background?: string;
+  // TTS voice of the character (from the character manifest)
+  voice?: string;
+  // Prior turns so the companion remembers the conversation
+  history?: CompanionTurn[];
+}
+
+export interface SpeechV1 {
+  audioBase64: string;
+  visemes: RawVisemePayload | null;
+  visemeFormat: string | null;
+}
+
+export interface CompanionReplyV1 {
+  version: 1;
+  // Reply text as sent, including any [bracketed] animation tags
+  text: string;
+  emotion: Emotion;
+  // null when the backend left speech to a separate /ask call
+  speech: SpeechV1 | null;
+  gestures: string[];
+  motionFiles: string[];
+}
+
+export interface SpeechReplyV1 extends SpeechV1 {
+  version: 1;
+  emotion: Emotion;
+}
+
+export type CompanionReply = CompanionReplyV1;
+export type SpeechReply = SpeechReplyV1;
+
+export interface RequestOptions {
+  // Cancels the request (and a stream being read) when aborted
+  signal?: AbortSignal;
+  // Overrides the client's timeout for this call; 0 disables it
+  timeoutMs?: number;
+  // Overrides the client's retry count; only idempotent calls are retried
+  retries?: number;
+}
+
+export type ChatResult =
+  | { kind: "reply"; reply: CompanionReply }
+  | { kind: "stream"; events: AsyncGenerator<CompanionStreamEvent> };
+
+// --- Errors ---
+
+export class CompanionError extends Error {
+  constructor(message: string, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = "CompanionError";
+  }
+}
+
+/** The request never produced a response (offline, DNS, CORS, aborted). */
+export class CompanionNetworkError extends CompanionError {
+  readonly url: string;
+  constructor(url: string, cause: unknown) {
+    super(`Could not reach the companion server (${url})`, { cause });
+    this.name = "CompanionNetworkError";
+    this.url = url;
+  }
+}
+
+/** No answer (or, while streaming, no next event) within the timeout. */
+export class CompanionTimeoutError extends CompanionNetworkError {
+  readonly timeoutMs: number;
+  constructor(url: string, timeoutMs: number) {
+    super(url, null);
+    this.message = `Companion server did not answer within ${Math.round(timeoutMs / 1000)}s (${url})`;
+    this.name = "CompanionTimeoutError";
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** The caller aborted the request; not a failure to report to the user. */
+export class CompanionAbortedError extends CompanionError {
+  constructor(url: string) {
+    super(`Request to ${url} was cancelled`);
+    this.name = "CompanionAbortedError";
+  }
+}
+
+export const isCancellation = (err: unknown): err is CompanionAbortedError => err instanceof CompanionAbortedError;
+
+/** The server answered with a non-2xx status. */
+export class CompanionHttpError extends CompanionError {
+  readonly status: number;
+  readonly url: string;
+  readonly body: string;
+  constructor(url: string, status: number, statusText: string, body: string) {
+    super(`Companion server returned ${status}${statusText ? ` ${statusText}` : ""} for ${url}`);
+    this.name = "CompanionHttpError";
+    this.status = status;
+    this.url = url;
+    this.body = body;
+  }
+}
+
+/** The response body was not the shape the contract promises. */
+export class CompanionPayloadError extends CompanionError {
+  readonly path: string;
+  constructor(path: string, problem: string) {
+    super(`Malformed companion payload: ${path} ${problem}`);
+    this.name = "CompanionPayloadError";
+    this.path = path;
+  }
+}
+
+/** A speech endpoint answered without audio. */
+export class CompanionMissingAudioError extends CompanionError {
+  constructor(url: string) {
+    super(`Companion server returned no audio for ${url}`);
+    this.name = "CompanionMissingAudioError";
+  }
+}
+
+// --- Validation ---
+
+type Json = Record<string, unknown>;
+
+const isObj = (v: unknown): v is Json => !!v && typeof v === "object" && !Array.isArray(v);
+
+const expectObject = (value: unknown, path: string): Json => {
+  if (!isObj(value)) throw new CompanionPayloadError(path, "must be an object");
+  return value;
+};
+
+const optionalString = (obj: Json, key: string, path: string): string | null => {
+  const v = obj[key];
+  if (v === undefined || v === null || v === "") return null;
+  if (typeof v !== "string") throw new CompanionPayloadError(`${path}.${key}`, "must be a string");
+  return v;
+};
+
+const requireString = (obj: Json, key: string, path: string): string => {
+  const v = optionalString(obj, key, path);
+  if (v === null || !v.trim()) throw new CompanionPayloadError(`${path}.${key}`, "is required");
+  return v;
+};
+
+// Backends send either one name or a list
+const stringList = (obj: Json, key: string, path: string): string[] => {
+  const v = obj[key];
+  if (v === undefined || v === null || v === "") return [];
+  const list = Array.isArray(v) ? v : [v];
+  if (list.some((item) => typeof item !== "string")) {
+    throw new CompanionPayloadError(`${path}.${key}`, "must be a string or a list of strings");
+  }
+  return list as string[];
+};
+
+/** Unknown emotions fall back to neutral so a newer backend can't break the face. */
+export const normalizeEmotion = (value: unknown): Emotion => {
+  if (typeof value !== "string" || !value) return "neutral";
+  const lower = value.toLowerCase() as Emotion;
+  if (EMOTIONS.includes(lower)) return lower;
+  console.warn(`CompanionClient: unknown emotion "${value}", using neutral`);
+  return "neutral";
+};
+
+const toEmotion = (obj: Json, path: string) => normalizeEmotion(optionalString(obj, "emotion", path));
+
+const checkVersion = (obj: Json, path: string) => {
+  const v = obj.api_version ?? COMPANION_API_VERSION;
+  if (v !== COMPANION_API_VERSION) {
+    throw new CompanionPayloadError(`${path}.api_version`, `${String(v)} is not supported (expected ${COMPANION_API_VERSION})`);
+  }
+};
+
+const toVisemes = (obj: Json, path: string): RawVisemePayload | null => {
+  const v = obj.visemes;
+  if (v === undefined || v === null) return null;
+  if (typeof v === "string" || Array.isArray(v) || isObj(v)) return v as RawVisemePayload;
+  throw new CompanionPayloadError(`${path}.visemes`, "must be a cue list, a cue object or a string");
+};
+
+const toSpeech = (obj: Json, path: string): SpeechV1 | null => {
+  const audioBase64 = optionalString(obj, "audio_base64", path);
+  if (!audioBase64) return null;
+  return {
+    audioBase64,
+    visemes: toVisemes(obj, path),
+    visemeFormat: optionalString(obj, "viseme_format", path),
+  };
+};
+
+export const parseCompanionReply = (payload: unknown): CompanionReply => {
+  const obj = expectObject(payload, "reply");
+  checkVersion(obj, "reply");
+  return {
+    version: 1,
+    text: requireString(obj, "response", "reply"),
+    emotion: toEmotion(obj, "reply"),
+    speech: toSpeech(obj, "reply"),
+    gestures: stringList(obj, "mixamo_animation", "reply"),
+    motionFiles: stringList(obj, "bvh_files", "reply"),
+  };
+};
+
+export const parseSpeechReply = (payload: unknown, url = "/ask"): SpeechReply => {
+  const obj = expectObject(payload, "speech");
+  checkVersion(obj, "speech");
+  const speech = toSpeech(obj, "speech");
+  if (!speech) throw new CompanionMissingAudioError(url);
+  return { version: 1, ...speech, emotion: toEmotion(obj, "speech") };
+};
+
+// Drop stream events whose fields have the wrong types instead of failing mid-reply
+const validStreamEvent = (event: CompanionStreamEvent): boolean => {
+  switch (event.type) {
+    case "text":
+      return typeof event.delta === "string";
+    case "audio":
+      return typeof event.audio_base64 === "string" && event.audio_base64.length > 0;
+    case "visemes":
+      return event.visemes !== undefined && event.visemes !== null;
+    case "meta":
+    case "done":
+      return true;
+    case "error":
+      return typeof event.message === "string";
+    default:
+      return false;
+  }
+};
+
+async function* validatedEvents(url: string, res: Response, watchdog: Watchdog): AsyncGenerator<CompanionStreamEvent> {
+  try {
+    for await (const event of readCompanionStream(res)) {
+      watchdog.arm();
+      if (validStreamEvent(event)) yield event;
+      else console.warn("CompanionClient: skipping malformed stream event", event);
+    }
+  } catch (err) {
+    throw watchdog.fail(url, err);
+  } finally {
+    watchdog.stop();
+  }
+}
+
+// --- Timeouts, cancellation and retries ---
+
+const RETRYABLE_STATUS = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+const isRetryable = (err: unknown) =>
+  err instanceof CompanionNetworkError || (err instanceof CompanionHttpError && RETRYABLE_STATUS.has(err.status));
+
+// Aborts one attempt when the caller's signal fires or the timer runs out, and
+// remembers which of the two it was so the failure can be classified.
+class Watchdog {
+  private controller = new AbortController();
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private timedOut = false;
+  private unlink: () => void;
+
+  constructor(private timeoutMs: number, private outer?: AbortSignal) {
+    const onAbort = () => this.controller.abort(outer?.reason);
+    if (outer?.aborted) onAbort();
+    else outer?.addEventListener("abort", onAbort, { once: true });
+    this.unlink = () => outer?.removeEventListener("abort", onAbort);
+    this.arm();
+  }
+
+  get signal() {
+    return this.controller.signal;
+  }
+
+  /** (Re)start the timer, e.g. after each streamed event. */
+  arm() {
+    if (this.timer) clearTimeout(this.timer);
+    if (this.timeoutMs <= 0) return;
+    this.timer = setTimeout(() => {
+      this.timedOut = true;
+      this.controller.abort();
+    }, this.timeoutMs);
+  }
+
+  stop() {
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = null;
+    this.unlink();
+  }
+
+  /** Translate a fetch or read failure into the matching CompanionError. */
+  fail(url: string, err: unknown): CompanionError {
+    this.stop();
+    if (err instanceof CompanionError) return err;
+    if (this.timedOut) return new CompanionTimeoutError(url, this.timeoutMs);
+    if (this.outer?.aborted) return new CompanionAbortedError(url);
+    return new CompanionNetworkError(url, err);
+  }
+}
+
+const backoff = (url: string, ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(new CompanionAbortedError(url));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new CompanionAbortedError(url));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+
+// --- Client ---
+
+export interface CompanionClientOptions {
+  // Empty string means same origin (the bundled mock routes)
+  baseUrl?: string;
+  timeoutMs?: number;
+  // Extra attempts for idempotent calls
+  retries?: number;
+  // First backoff delay; doubles on every retry
+  retryDelayMs?: number;
+}
+
+// Motion generation runs a model on the server and is much slower than chat
+const MOTION_TIMEOUT_MS = 120_000;
+
+type PostOptions = RequestOptions & { accept?: string; idempotent?: boolean };
+
+export class CompanionClient {
+  readonly baseUrl: string;
+  readonly timeoutMs: number;
+  readonly retries: number;
+  readonly retryDelayMs: number;
+
+  constructor(options: CompanionClientOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? process.env.NEXT_PUBLIC_BACKEND_URL ?? "").replace(/\/+$/, "");
+    this.timeoutMs = options.timeoutMs ?? 30_000;
+    this.retries = options.retries ?? 2;
+    this.retryDelayMs = options.retryDelayMs ?? 500;
+  }
+
+  /**
+   * POST with the timeout and cancellation policy. Resolves once the response
+   * headers are in; the returned watchdog keeps guarding the body until stopped.
+   */
+  private async post(path: string, body: unknown, options: PostOptions = {}) {
+    const url = `${this.baseUrl}${path}`;
+    const attempts = 1 + (options.idempotent ? options.retries ?? this.retries : 0);
+    for (let attempt = 1; ; attempt++) {
+      const watchdog = new Watchdog(options.timeoutMs ?? this.timeoutMs, options.signal);
+      try {
+        let res: Response;
+        try {
+          res = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json", Accept: options.accept ?? "application/json" },
+            body: JSON.stringify(body),
+            signal: watchdog.signal,
+          });
+        } catch (err) {
+          throw watchdog.fail(url, err);
+        }
+        if (!res.ok) {
+          const text = await res.text().catch(() => "");
+          watchdog.stop();
+          throw new CompanionHttpError(url, res.status, res.statusText, text.slice(0, 500));
+        }
+        return { url, res, watchdog };
+      } catch (err) {
+        if (attempt >= attempts || !isRetryable(err)) throw err;
+        const delay = this.retryDelayMs * 2 ** (attempt - 1) * (0.8 + Math.random() * 0.4);
+        console.warn(`CompanionClient: ${url} failed (${(err as Error).message}), retrying in ${Math.round(delay)}ms`);
+        await backoff(url, delay, options.signal);
+      }
+    }
+  }
+
+  private async json(url: string, res: Response, watchdog: Watchdog) {
+    try {
+      return await res.json();
+    } catch (err) {
+      if (err instanceof SyntaxError) throw new CompanionPayloadError(url, `is not valid JSON (${err.message})`);
+      throw watchdog.fail(url, err);
+    } finally {
+      watchdog.stop();
+    }
+  }
+
+  /**
+   * Single-call flow. With `stream` the server may answer incrementally, in
+   * which case the validated events are returned for the caller to consume.
+   */
+  async chat(request: CompanionRequest, options: RequestOptions & { stream?: boolean } = {}): Promise<ChatResult> {
+    const { stream, ...rest } = options;
+    const { url, res, watchdog } = await this.post(
+      "/api/companion",
+      { ...request, stream: !!stream },
+      { ...rest, accept: stream ? STREAM_ACCEPT : "application/json" }
+    );
+    if (isStreamingResponse(res)) return { kind: "stream", events: validatedEvents(url, res, watchdog) };
+    return { kind: "reply", reply: parseCompanionReply(await this.json(url, res, watchdog)) };
+  }
+
+  /** Two-call flow, step one: the reply text (speech may or may not be included). */
+  async reply(request: CompanionRequest, options: RequestOptions = {}): Promise<CompanionReply> {
+    const result = await this.chat(request, options);
+    if (result.kind !== "reply") throw new CompanionPayloadError("/api/companion", "streamed without being asked to");
+    return result.reply;
+  }
+
+  /** Two-call flow, step two: speech for `text` from POST /ask. Retried on transient failures. */
+  async speak(text: string, request: Omit<CompanionRequest, "text">, options: RequestOptions = {}): Promise<SpeechReply> {
+    const { url, res, watchdog } = await this.post("/ask", { ...request, text }, { ...options, idempotent: true });
+    return parseSpeechReply(await this.json(url, res, watchdog), url);
+  }
+
+  /** Ask the server to generate BVH motions; resolves with the created file names. */
+  async generateMotion(prompts: string[], options: RequestOptions = {}): Promise<string[]> {
+    const { url, res, watchdog } = await this.post(
+      "/api/generate_bvh",
+      { prompts },
+      { ...options, timeoutMs: options.timeoutMs ?? MOTION_TIMEOUT_MS }
+    );
+    const obj = expectObject(await this.json(url, res, watchdog), "motion");
+    return stringList(obj, "files_created", "motion");
+  }
+
+  /** URL a generated BVH file is served from. */
+  motionUrl(fileName: string) {
+    return `${this.baseUrl}/generated_bvh/${encodeURIComponent(fileName)}`;
+  }
+}
+
+export const companionClient = new CompanionClient();
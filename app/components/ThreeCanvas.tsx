@@ -12,58 +12,56 @@ import * as THREE from "three";
 import { OrbitControls } from "three/examples/jsm/controls/OrbitControls.js";
 // Removed unused bvhPlayer import to revert
 // import { bvhPlayer } from "./BVHAnimationPlayer";
-import { GLTFLoader } from "three/examples/jsm/loaders/GLTFLoader.js";
+import { GLTFLoader, type GLTF } from "three/examples/jsm/loaders/GLTFLoader.js";
 import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader.js";
 import { RGBELoader } from "three/examples/jsm/loaders/RGBELoader.js";
+import { EXRLoader } from "three/examples/jsm/loaders/EXRLoader.js";
 import { BVHLoader } from "three/examples/jsm/loaders/BVHLoader.js";
 import * as SkeletonUtils from "three/examples/jsm/utils/SkeletonUtils.js";
-
-// Cache loaders' results to avoid re-fetching/parsing the same assets repeatedly
-const gltfPromiseCache = new Map<string, Promise<any>>();
-const fbxPromiseCache = new Map<string, Promise<any>>();
-
-const loadGLTFCached = (url: string) => {
-  if (!url) return Promise.reject(new Error("GLTF url missing"));
-  if (!gltfPromiseCache.has(url)) {
-    const loader = new GLTFLoader();
-    gltfPromiseCache.set(url, loader.loadAsync(url));
-  }
-  return gltfPromiseCache.get(url)!;
-};
-
-const loadFBXCached = (url: string) => {
-  if (!url) return Promise.reject(new Error("FBX url missing"));
-  if (!fbxPromiseCache.has(url)) {
-    const loader = new FBXLoader();
-    fbxPromiseCache.set(url, loader.loadAsync(url));
-  }
-  return fbxPromiseCache.get(url)!;
-};
+import { AnalyserLipSync } from "./AnalyserLipSync";
+import { DEFAULT_BACKGROUND, findBackground, type BackgroundDescriptor } from "./backgrounds";
+import { AssetCache, disposeObject3D, ResourceTracker, type ProgressListener } from "./resources";
+import { findBundledClip } from "./animationBundles";
+import { describeClipReport, logClipDebug, optimizeClip } from "./clipOptimizer";
+import {
+  detectRig,
+  retargetClipByName,
+  restPoseOf,
+  retargetPoseClip,
+  vrmHumanoid,
+  type RestPose,
+  type Rig,
+  type RigOverrides,
+} from "./retargeting";
+import { AnimationLayers, type GestureOptions } from "./AnimationLayers";
+import { AnimationStateMachine, type TransitionRecord } from "./AnimationStateMachine";
+import { alignVisemes } from "./visemeAligner";
+import { VisemeScheduler, type MouthPose } from "./VisemeScheduler";
+import {
+  findFaceMesh,
+  getVisemeProfile,
+  profileMorphs,
+  resolveMorphWeights,
+  type VisemeProfile,
+} from "./visemeProfiles";
+
+// Loaded files are shared through reference-counted LRU caches (resources.ts).
+// Characters hold their model and clips until they are swapped out; a few
+// released models and a full idle pack's worth of clips stay cached for reuse.
+const gltfCache = new AssetCache<GLTF>({
+  load: (url, onProgress) => new GLTFLoader().loadAsync(url, onProgress),
+  dispose: (gltf) => disposeObject3D(gltf.scene),
+  capacity: 2,
+});
+const fbxCache = new AssetCache<THREE.Group>({
+  load: (url, onProgress) => new FBXLoader().loadAsync(url, onProgress),
+  dispose: disposeObject3D,
+  capacity: 40,
+});
+// Rest pose of the FBX a clip was parsed (or bundled) from, so retargetClip can align it
+const clipRestPoses = new WeakMap<THREE.AnimationClip, RestPose>();
 
 // --- TYPE DEFINITIONS ---
-interface BackgroundData {
-  name: string;
-  url: string | null;
-  color?: number;
-  isHDR?: boolean;
-}
-
-const backgrounds = {
-  studio: { name: "Studio", url: null, color: 0xffffff },
-  forest: { name: "Forest", url: "/textures/forest/forestbg.jpg" },
-  city: { name: "City at Night", url: "/textures/city/cyberbg.jpg" },
-  venice: {
-    name: "Venice Sunset HDR",
-    url: "https://unpkg.com/three@0.160.0/examples/textures/equirectangular/venice_sunset_1k.hdr",
-    isHDR: true,
-  },
-  royal: {
-    name: "Royal Esplanade HDR",
-    url: "https://unpkg.com/three@0.160.0/examples/textures/equirectangular/royal_esplanade_1k.hdr",
-    isHDR: true,
-  },
-};
-
 // ===== Editable mappings =====
 // Map backend animation names to FBX URLs served from /public
 // Edit these to match the filenames on disk (case-sensitive on Linux).
@@ -88,12 +86,97 @@ export type Emotion =
   | "annoyed"
   | "flirty";
 
+export const EMOTIONS: readonly Emotion[] = [
+  "neutral",
+  "happy",
+  "sad",
+  "excited",
+  "thinking",
+  "confused",
+  "annoyed",
+  "flirty",
+];
+
+// Morph weights per emotion, merged over the built-in ones (a character's face may
+// need a softer smile or a different brow shape)
+export type EmotionOverrides = Partial<Record<Emotion, Record<string, number>>>;
+
+// One mouth shape on the speech timeline; `time` is seconds from the start of the audio.
+export type VisemeCue = { time: number; value: string; jaw: number };
+
+export interface SpeechOptions {
+  // Schedule this audio after the active utterance instead of replacing it
+  append?: boolean;
+  // More segments will follow (streaming); resolve once scheduled and keep the
+  // utterance alive until finishUtterance() is called
+  keepOpen?: boolean;
+  onEnded?: () => void;
+  // How the mouth is driven: "visemes" uses the cue timeline only, "analyser"
+  // derives it from the audio signal, "auto" (default) uses cues when present.
+  lipSync?: LipSyncMode;
+  // Spoken text; when no cues are given it is aligned against the decoded audio
+  text?: string;
+}
+
+export type LipSyncMode = "auto" | "visemes" | "analyser";
+
+// An utterance waiting in the speech queue; `audio` is a URL or data: URI
+export interface QueuedUtterance {
+  audio: string;
+  visemes: VisemeCue[];
+  emotion: Emotion;
+  options?: Omit<SpeechOptions, "append" | "keepOpen">;
+}
+
+// Passed to the utterance events so callers can tell replies apart
+export interface UtteranceInfo {
+  id: number;
+  emotion: Emotion;
+  text?: string;
+}
+
+// Why speech stopped early: cancelSpeech(), skipUtterance(), or a new
+// non-appending playAudioWithEmotionAndLipSync() call taking over
+export type InterruptReason = "cancelled" | "skipped" | "replaced";
+
+// Files a character is made of; only the model is required
+export type AssetKind = "model" | "idle" | "intro" | "interrupt" | "talking" | "typing";
+
+export interface AssetLoadError {
+  kind: AssetKind;
+  url: string;
+  error: unknown;
+  // The character could not be shown at all (the model failed); otherwise the
+  // clip was skipped or replaced by a fallback
+  fatal: boolean;
+}
+
+// Base-layer animation states (see the state table in ThreeCanvas)
+export type AnimationStateName = "intro" | "idle" | "typing" | "interrupt" | "talking" | "bvh";
+
 export interface ThreeCanvasHandles {
   playAudioWithEmotionAndLipSync: (
     audioUrl: string,
-    visemes: { time: number; value: string; jaw: number }[],
-    emotion: Emotion
+    visemes: VisemeCue[],
+    emotion: Emotion,
+    options?: SpeechOptions
   ) => Promise<void>;
+  // Add a batch of cues to the active utterance. Times are on the utterance's
+  // media timeline (seconds into the concatenated audio received so far).
+  appendVisemes?: (visemes: VisemeCue[]) => void;
+  // Close a streamed utterance; resolves when its scheduled audio has played out
+  finishUtterance?: () => Promise<void>;
+  // Queue speech behind whatever is playing; resolves when it has played,
+  // been skipped, or been dropped by cancelSpeech()
+  enqueueUtterance?: (utterance: QueuedUtterance) => Promise<void>;
+  // Barge-in: stop the current utterance gracefully and clear the queue
+  cancelSpeech?: () => void;
+  // Stop the current utterance and move on to the next queued one
+  skipUtterance?: () => void;
+  pauseSpeech?: () => Promise<void>;
+  resumeSpeech?: () => Promise<void>;
+  // True while an utterance is playing or queued
+  isSpeaking?: () => boolean;
   playAnimation: (url: string) => Promise<void>;
   setStaticEmotion: (emotion: Emotion) => void;
   // Control a typing/waiting pose
@@ -103,12 +186,18 @@ export interface ThreeCanvasHandles {
     model: THREE.Object3D | null;
     idleAction: THREE.AnimationAction | null;
   };
+  // Current base animation state and its recent transitions, for debugging
+  getAnimationState?: () => {
+    state: AnimationStateName;
+    history: readonly TransitionRecord<AnimationStateName>[];
+  };
   // Play a Mixamo gesture/animation by name (maps to /gesturesanimation/<name>.fbx)
   // playMixamoAnimation was removed; gesture playback is no longer supported.
   // Backwards-compatible alias used elsewhere
   playAudioWithLipSync?: (audioBase64OrUrl: string, visemes: any[]) => Promise<void>;
-  // Play one or more Mixamo FBX gestures (paths served from /public)
-  playGestures?: (urls: string[] | string) => Promise<void>;
+  // Play one or more Mixamo FBX gestures (paths served from /public) additively
+  // over the base animation, masked to the upper body unless `options.mask` says otherwise
+  playGestures?: (urls: string[] | string, options?: GestureOptions) => Promise<void>;
   // Reset skeleton, stop all actions, and return to idle loop
   resetToIdle?: () => void;
 }
@@ -125,197 +214,78 @@ export interface ThreeCanvasProps {
   talkingAnimationUrl2?: string;
   // Play once and hold final frame while user types
   typingAnimationUrl?: string;
-  backgroundData?: BackgroundData;
-  backgroundPreset?: keyof typeof backgrounds;
+  // Environment to show; may change at runtime (see backgrounds.ts)
+  backgroundData?: BackgroundDescriptor;
+  // Id of a built-in background, used when backgroundData is not given
+  backgroundPreset?: string;
   // compatibility: optional UI tweak used by other pages
   smileIntensity?: number;
+  // Viseme profile id (see visemeProfiles.ts) or a profile object; may change at runtime
+  visemeProfile?: string | VisemeProfile;
+  // Per-character emotion morph tweaks; may change at runtime
+  emotionOverrides?: EmotionOverrides;
+  // Corrections to the detected rig of the character (retargeting.ts); read when it is staged
+  retargetOverrides?: RigOverrides;
+  // Speech events; start fires when audio is scheduled, end after it has played out
+  onUtteranceStart?: (info: UtteranceInfo) => void;
+  onUtteranceEnd?: (info: UtteranceInfo) => void;
+  onInterrupted?: (info: UtteranceInfo, reason: InterruptReason) => void;
+  // Loading: ready fires once the model and its first idle are on stage (the
+  // other clips keep loading); errors fire per failed file
+  onReady?: (info: { characterModelUrl: string }) => void;
+  onLoadError?: (failure: AssetLoadError) => void;
 }
 
-const boneNameMap: { [key: string]: string } = {
-  mixamorigHips: "Hips",
-  mixamorigSpine: "Spine",
-  mixamorigSpine1: "Spine1",
-  mixamorigSpine2: "Spine2",
-  mixamorigNeck: "Neck",
-  mixamorigHead: "Head",
-  mixamorigLeftShoulder: "LeftShoulder",
-  mixamorigLeftArm: "LeftArm",
-  mixamorigLeftForeArm: "LeftForeArm",
-  mixamorigLeftHand: "LeftHand",
-  mixamorigLeftHandThumb1: "LeftHandThumb1",
-  mixamorigLeftHandThumb2: "LeftHandThumb2",
-  mixamorigLeftHandThumb3: "LeftHandThumb3",
-  mixamorigLeftHandIndex1: "LeftHandIndex1",
-  mixamorigLeftHandIndex2: "LeftHandIndex2",
-  mixamorigLeftHandIndex3: "LeftHandIndex3",
-  mixamorigLeftHandMiddle1: "LeftHandMiddle1",
-  mixamorigLeftHandMiddle2: "LeftHandMiddle2",
-  mixamorigLeftHandMiddle3: "LeftHandMiddle3",
-  mixamorigLeftHandRing1: "LeftHandRing1",
-  mixamorigLeftHandRing2: "LeftHandRing2",
-  mixamorigLeftHandRing3: "LeftHandRing3",
-  mixamorigLeftHandPinky1: "LeftHandPinky1",
-  mixamorigLeftHandPinky2: "LeftHandPinky2",
-  mixamorigLeftHandPinky3: "LeftHandPinky3",
-  mixamorigRightShoulder: "RightShoulder",
-  mixamorigRightArm: "RightArm",
-  mixamorigRightForeArm: "RightForeArm",
-  mixamorigRightHand: "RightHand",
-  mixamorigRightHandThumb1: "RightHandThumb1",
-  mixamorigRightHandThumb2: "RightHandThumb2",
-  mixamorigRightHandThumb3: "RightHandThumb3",
-  mixamorigRightHandIndex1: "RightHandIndex1",
-  mixamorigRightHandIndex2: "RightHandIndex2",
-  mixamorigRightHandIndex3: "RightHandIndex3",
-  mixamorigRightHandMiddle1: "RightHandMiddle1",
-  // Fixed typo: map to RightHandMiddle2 (was LeftHandMiddle2)
-  mixamorigRightHandMiddle2: "RightHandMiddle2",
-  mixamorigRightHandMiddle3: "RightHandMiddle3",
-  mixamorigRightHandRing1: "RightHandRing1",
-  mixamorigRightHandRing2: "RightHandRing2",
-  mixamorigRightHandRing3: "RightHandRing3",
-  mixamorigRightHandPinky1: "RightHandPinky1",
-  mixamorigRightHandPinky2: "RightHandPinky2",
-  mixamorigRightHandPinky3: "RightHandPinky3",
-  mixamorigLeftUpLeg: "LeftUpLeg",
-  mixamorigLeftLeg: "LeftLeg",
-  mixamorigLeftFoot: "LeftFoot",
-  mixamorigLeftToeBase: "LeftToeBase",
-  mixamorigRightUpLeg: "RightUpLeg",
-  mixamorigRightLeg: "RightLeg",
-  mixamorigRightFoot: "RightFoot",
-  mixamorigRightToeBase: "RightToeBase",
+type SpeechSegment = {
+  source: AudioBufferSourceNode;
+  mediaStart: number; // offset of this segment within the concatenated audio
+  ctxStart: number; // AudioContext time the segment was scheduled at
+  duration: number;
+  ended: boolean;
 };
 
-// Retarget options to match the debug.html behavior closely
-const RPM_TPOSE_RETARGET_OPTIONS = {
-  preservePosition: false,
-  useFirstFrameAsBindPose: false,
-  hip: "Hips",
-  names: {
-    Hips: "Hips",
-    Spine: "Spine",
-    Spine1: "Spine1",
-    Spine2: "Spine2",
-    Neck: "Neck",
-    Head: "Head",
-    LeftShoulder: "LeftShoulder",
-    LeftArm: "LeftArm",
-    LeftForeArm: "LeftForeArm",
-    LeftHand: "LeftHand",
-    RightShoulder: "RightShoulder",
-    RightArm: "RightArm",
-    RightForeArm: "RightForeArm",
-    RightHand: "RightHand",
-    LeftUpLeg: "LeftUpLeg",
-    LeftLeg: "LeftLeg",
-    LeftFoot: "LeftFoot",
-    LeftToe: "LeftToeBase",
-    RightUpLeg: "RightUpLeg",
-    RightLeg: "RightLeg",
-    RightFoot: "RightFoot",
-    RightToe: "RightToeBase",
-    // IMPORTANT: intentionally omit finger mappings to avoid over-rotating wrists
-    // when BVH contains finger joints. This prevents fist-like poses.
-  },
+// A single spoken reply. Streaming replies grow segment by segment while `open`.
+type ActiveUtterance = {
+  info: UtteranceInfo;
+  // Per-utterance volume so an interruption can duck it out instead of cutting
+  gain: GainNode;
+  started: boolean;
+  startTime: number;
+  endTime: number;
+  mediaEnd: number;
+  segments: SpeechSegment[];
+  visemes: VisemeCue[];
+  open: boolean;
+  lipSync: LipSyncMode;
+  resolvers: Array<() => void>;
+  onEnded: Array<() => void>;
 };
 
-// Explicit retarget map for Mixamo FBX clips (source bone names use "mixamorig:" prefix)
-const MIXAMO_RETARGET_OPTIONS = {
-  preservePosition: false,
-  useFirstFrameAsBindPose: false,
-  hip: "Hips",
-  names: {
-  Hips: "mixamorigHips",
-  Spine: "mixamorigSpine",
-  Spine1: "mixamorigSpine1",
-  Spine2: "mixamorigSpine2",
-  Neck: "mixamorigNeck",
-  Head: "mixamorigHead",
-  LeftShoulder: "mixamorigLeftShoulder",
-  LeftArm: "mixamorigLeftArm",
-  LeftForeArm: "mixamorigLeftForeArm",
-  LeftHand: "mixamorigLeftHand",
-  RightShoulder: "mixamorigRightShoulder",
-  RightArm: "mixamorigRightArm",
-  RightForeArm: "mixamorigRightForeArm",
-  RightHand: "mixamorigRightHand",
-  LeftUpLeg: "mixamorigLeftUpLeg",
-  LeftLeg: "mixamorigLeftLeg",
-  LeftFoot: "mixamorigLeftFoot",
-  LeftToe: "mixamorigLeftToeBase",
-  RightUpLeg: "mixamorigRightUpLeg",
-  RightLeg: "mixamorigRightLeg",
-  RightFoot: "mixamorigRightFoot",
-  RightToe: "mixamorigRightToeBase",
-    // Fingers intentionally omitted to avoid over-rotation artifacts
-  },
-};
+type PendingUtterance = QueuedUtterance & { resolve: () => void };
 
-const bvhRetargetMap = {
-
-  preservePosition: false,
-  useFirstFrameAsBindPose: true,
-  hip: "Hips",
-  names: {
-    Spine: "Spine",
-    Spine1: "Spine1",
-    Spine2: "Spine2",
-    Neck: "Neck",
-    Head: "Head",
-    LeftShoulder: "LeftShoulder",
-    LeftArm: "LeftArm",
-    LeftForeArm: "LeftForeArm",
-    LeftHand: "LeftHand",
-    RightShoulder: "RightShoulder",
-    RightArm: "RightArm",
-    RightForeArm: "RightForeArm",
-    RightHand: "RightHand",
-    LeftUpLeg: "LeftUpLeg",
-    LeftLeg: "LeftLeg",
-    LeftFoot: "LeftFoot",
-    LeftToeBase: "LeftToe",
-    RightUpLeg: "RightUpLeg",
-    RightLeg: "RightLeg",
-    RightFoot: "RightFoot",
-    RightToeBase: "RightToe",
-    LeftHandThumb1: "LeftHand",
-    LeftHandThumb2: "LeftHand",
-    LeftHandThumb3: "LeftHand",
-    LeftHandIndex1: "LeftHand",
-    LeftHandIndex2: "LeftHand",
-    LeftHandIndex3: "LeftHand",
-    LeftHandMiddle1: "LeftHand",
-    LeftHandMiddle2: "LeftHand",
-    LeftHandMiddle3: "LeftHand",
-    LeftHandRing1: "LeftHand",
-    LeftHandRing2: "LeftHand",
-    LeftHandRing3: "LeftHand",
-    LeftHandPinky1: "LeftHand",
-    LeftHandPinky2: "LeftHand",
-    LeftHandPinky3: "LeftHand",
-    RightHandThumb1: "RightHand",
-    RightHandThumb2: "RightHand",
-    RightHandThumb3: "RightHand",
-    RightHandIndex1: "RightHand",
-    RightHandIndex2: "RightHand",
-    RightHandIndex3: "RightHand",
-    RightHandMiddle1: "RightHand",
-    RightHandMiddle2: "RightHand",
-    RightHandMiddle3: "RightHand",
-    RightHandRing1: "RightHand",
-    RightHandRing2: "RightHand",
-    RightHandRing3: "RightHand",
-    RightHandPinky1: "RightHand",
-    RightHandPinky2: "RightHand",
-    RightHandPinky3: "RightHand",
-  },
-};
 const LERP_SPEED = 10;
-// Fade timings (seconds). Increase FADE_DURATION to make animation crossfades
-// and fade-to-idle longer so transient T-poses are not visible on reset.
+// Speech endings (seconds): the mouth relaxes for SPEECH_RELEASE after the last
+// segment, interrupted audio ducks out over INTERRUPT_FADE, and the speech
+// emotion eases back to neutral over EMOTION_FADE.
+const SPEECH_RELEASE = 0.3;
+const INTERRUPT_FADE = 0.12;
+const EMOTION_FADE = 0.8;
+// Talking body clips: crossfade in/out of idle, swap between clips at loop
+// boundaries, and stay within this playback-rate band when pacing to speech.
+const TALK_FADE_IN = 0.4;
+const TALK_FADE_OUT = 0.6;
+const TALK_SWAP_FADE = 0.5;
+const TALK_MIN_TIME_SCALE = 0.8;
+const TALK_MAX_TIME_SCALE = 1.25;
+// Crossfade into and out of BVH clips (seconds)
 const FADE_DURATION = 1.5;
-const OPACITY_FADE = 0.6;
+// Character swap: the old model fades out, the new one fades in
+const SWAP_FADE = 0.35;
+// Stock clips standing in for a character's own when they fail to load
+const FALLBACK_IDLE_URL = "/idleanimations/StandIdle.fbx";
+const FALLBACK_TYPING_URL = "/idleanimations/waiting.fbx";
+// How long a load failure stays on the overlay (ms)
+const LOAD_ERROR_DISMISS_MS = 4000;
 
 const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
   (
@@ -330,6 +300,14 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
   typingAnimationUrl,
       backgroundData,
       backgroundPreset = "studio",
+      visemeProfile,
+      emotionOverrides,
+      onUtteranceStart,
+      onUtteranceEnd,
+      onInterrupted,
+      onReady,
+      onLoadError,
+      retargetOverrides,
     },
     ref
   ) => {
@@ -369,6 +347,10 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
       },
     };
 
+    const emotionOverridesRef = useRef(emotionOverrides);
+    emotionOverridesRef.current = emotionOverrides;
+    const emotionWeights = (emotion: Emotion) => ({ ...emotions[emotion], ...emotionOverridesRef.current?.[emotion] });
+
     // Helper: find the primary SkinnedMesh (with the largest number of bones)
     const findBestSkinnedMesh = (root: THREE.Object3D): THREE.SkinnedMesh | null => {
       let best: THREE.SkinnedMesh | null = null;
@@ -387,38 +369,81 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
     const targetEmotionWeights = useRef<{ [key: string]: number }>({}).current;
     const mountRef = useRef<HTMLDivElement>(null);
   const [cameraPosition, setCameraPosition] = useState<{x: number, y: number, z: number}>({x: 0, y: 0, z: 0});
-    const animationStateRef = useRef<
-      "intro" | "idle" | "interrupt" | "talking"
-    >(introAnimationUrl ? "intro" : "idle");
     const mixerRef = useRef<THREE.AnimationMixer | null>(null);
-    const faceMeshRef = useRef<THREE.SkinnedMesh | null>(null);
+    const faceMeshRef = useRef<THREE.Mesh | null>(null);
+    // Active viseme profile (may change at runtime) and the one the face mesh was bound with
+    const visemeProfileRef = useRef<VisemeProfile>(getVisemeProfile(visemeProfile));
+    visemeProfileRef.current = getVisemeProfile(visemeProfile);
+    const boundVisemeProfileRef = useRef<VisemeProfile | null>(null);
     const bodyMeshRef = useRef<THREE.SkinnedMesh | null>(null);
     const idleActionRef = useRef<THREE.AnimationAction | null>(null);
+    // Every idle clip of the character in playback order; idleActionRef is the current one
+    const idleActionsRef = useRef<THREE.AnimationAction[]>([]);
     const currentlyPlayingTalkingActionRef =
       useRef<THREE.AnimationAction | null>(null);
+    const talkingActionsRef = useRef<THREE.AnimationAction[]>([]);
+    // Gesture and face layers stacked on the base actions
+    const layersRef = useRef<AnimationLayers | null>(null);
     const isWaitingAfterTalkRef = useRef<boolean>(false);
-    const currentVisemeIndexRef = useRef(0);
+    const visemeSchedulerRef = useRef(new VisemeScheduler());
     const audioRef = useRef<THREE.Audio | null>(null);
     const audioContextRef = useRef<AudioContext | null>(null);
-    const audioSourceRef = useRef<AudioBufferSourceNode | null>(null);
+    const utteranceRef = useRef<ActiveUtterance | null>(null);
+    // Speech output bus; the analyser taps it for signal-driven lip-sync
+    const speechBusRef = useRef<GainNode | null>(null);
+    const analyserLipSyncRef = useRef<AnalyserLipSync | null>(null);
     const currentSpeechEmotionRef = useRef<Emotion>("neutral");
-    const speechEmotionIntensityRef = useRef(0);
+    // Previous emotion still easing out after a switch (e.g. back to neutral)
+    const fadingEmotionRef = useRef<{ emotion: Emotion; start: number; duration: number } | null>(null);
+    // Utterances waiting behind the active one, and whether one of them is playing
+    const speechQueueRef = useRef<PendingUtterance[]>([]);
+    const speechQueueBusyRef = useRef(false);
+    const speechPausedRef = useRef(false);
+    // Bumped whenever queued and pending speech is dropped; a call that was still
+    // fetching or decoding its audio checks it before scheduling anything
+    const speechEpochRef = useRef(0);
+    const utteranceIdRef = useRef(0);
+    // Latest event props, read from speech callbacks that outlive a render
+    const speechEventsRef = useRef({ onUtteranceStart, onUtteranceEnd, onInterrupted });
+    speechEventsRef.current = { onUtteranceStart, onUtteranceEnd, onInterrupted };
+    const loadEventsRef = useRef({ onReady, onLoadError });
+    loadEventsRef.current = { onReady, onLoadError };
+    const retargetOverridesRef = useRef(retargetOverrides);
+    retargetOverridesRef.current = retargetOverrides;
+    // Rig of the character on stage: what clips are retargeted to
+    const targetRigRef = useRef<Rig | null>(null);
+    // Progress overlay: null when nothing is loading; progress is 0-1 or null when unknown
+    const [loadStatus, setLoadStatus] = useState<{ progress: number | null; error?: string } | null>(null);
 
     // Blink state for automatic eye blinking
     const nextBlinkAtRef = useRef<number>(performance.now() + 1200 + Math.random() * 2000);
     const blinkProgressRef = useRef<number>(0);
     const isBlinkingRef = useRef<boolean>(false);
 
-    // Typing/playlist state refs (were missing)
+    // Actions owned by the intro/typing/interrupt/bvh states
+    const introActionRef = useRef<THREE.AnimationAction | null>(null);
+    const interruptActionRef = useRef<THREE.AnimationAction | null>(null);
     const typingActionRef = useRef<THREE.AnimationAction | null>(null);
-    const typingActiveRef = useRef<boolean>(false);
+    const bvhActionRef = useRef<THREE.AnimationAction | null>(null);
+    // Latest setTyping() wish, honoured once a lazily loaded typing clip arrives
+    const typingRequestedRef = useRef(false);
     const typingHoldTimeoutRef = useRef<number | null>(null);
     const typingHeadQuatRef = useRef<THREE.Quaternion | null>(null);
     const typingNeckQuatRef = useRef<THREE.Quaternion | null>(null);
-    const loopActionsRef = useRef<THREE.AnimationAction[]>([]);
-    const currentLoopActionRef = useRef<THREE.AnimationAction | null>(null);
-    const currentLoopIndexRef = useRef<number>(-1);
-    const loopEnabledRef = useRef<boolean>(false);
+
+    // Locate the face mesh for the current viseme profile on the loaded character
+    const bindFaceMesh = (root: THREE.Object3D) => {
+      const profile = visemeProfileRef.current;
+      const mesh = findFaceMesh(root, profile);
+      if (!mesh) console.warn(`ThreeCanvas: no face mesh found for viseme profile "${profile.id}"`);
+      // keep any in-flight speech timeline when rebinding mid-utterance
+      if (mesh && faceMeshRef.current && mesh !== faceMeshRef.current) {
+        mesh.userData.visemes = faceMeshRef.current.userData.visemes;
+        mesh.userData.audioStartTime = faceMeshRef.current.userData.audioStartTime;
+      }
+      faceMeshRef.current = mesh;
+      boundVisemeProfileRef.current = profile;
+    };
 
     // Helper: set/lerp a morph target if present
     const setMorphLerp = (
@@ -446,34 +471,33 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
       }
     };
 
+    // Leave the typing pose through the interrupt clip when there is one
+    const leaveTyping = (reason: string) => {
+      const machine = animationMachineRef.current;
+      if (!machine.is("typing")) return;
+      if (!machine.transition("interrupt", { reason })) machine.transition("idle", { reason });
+    };
+
     const releaseTypingPose = (holdMs = 1600) => {
       // Clear any previous timer and set a new one to release the frozen typing pose
       clearTypingHoldTimeout();
       typingHoldTimeoutRef.current = window.setTimeout(() => {
         typingHoldTimeoutRef.current = null;
-        // Only proceed if typing is still considered active (we captured a pose)
-        typingActiveRef.current = false;
-        try {
-          const playlist = loopActionsRef.current;
-          if (playlist.length > 0) {
-            const prev = currentLoopActionRef.current;
-            if (prev?.isRunning()) prev.fadeOut(0.25);
-            currentLoopIndexRef.current = (currentLoopIndexRef.current + 1) % playlist.length;
-            const next = playlist[currentLoopIndexRef.current];
-            next.reset().setEffectiveWeight(1).fadeIn(0.25).play();
-            currentLoopActionRef.current = next;
-          } else if (idleActionRef.current) {
-            idleActionRef.current.reset().setEffectiveWeight(1).fadeIn(0.25).play();
-          }
-        } catch (err) {
-          // ignore
-        }
-        // clear frozen quaternions so subsequent animations are not clobbered
-        typingHeadQuatRef.current = null;
-        typingNeckQuatRef.current = null;
+        leaveTyping("typing pose held");
       }, holdMs);
     };
 
+    // Capture the held typing pose once its one-shot clip reaches the end
+    const onTypingClipFinished = () => {
+      if (!animationMachineRef.current.is("typing")) return;
+      const head = headBoneRef.current;
+      const neck = neckBoneRef.current;
+      if (head) typingHeadQuatRef.current = head.quaternion.clone();
+      if (neck) typingNeckQuatRef.current = neck.quaternion.clone();
+      // Release the frozen typing pose after a short hold so we don't stay looking down
+      releaseTypingPose(1400);
+    };
+
   // Bone refs for subtle procedural motion during interrupt animation
   const neckBoneRef = useRef<THREE.Bone | null>(null);
   const headBoneRef = useRef<THREE.Bone | null>(null);
@@ -499,7 +523,6 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
     // Camera/model follow & reset helpers
     const cameraRef = useRef<THREE.PerspectiveCamera | null>(null);
     const controlsRef = useRef<OrbitControls | null>(null);
-    const isFollowingRef = useRef(false);
     const cameraStartPosRef = useRef(new THREE.Vector3());
     const controlsStartTargetRef = useRef(new THREE.Vector3());
     const cameraOffsetRef = useRef(new THREE.Vector3());
@@ -508,6 +531,9 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
   const lastGoodCameraPosRef = useRef(new THREE.Vector3(0, 1, 3));
   const lastGoodCameraQuatRef = useRef(new THREE.Quaternion());
     const modelRootRef = useRef<THREE.Object3D | null>(null);
+    // Cached assets and per-instance copies held by the character on stage
+    const characterResourcesRef = useRef<ResourceTracker | null>(null);
+    const sceneRef = useRef<THREE.Scene | null>(null);
     const modelStartPosRef = useRef(new THREE.Vector3());
     const modelStartQuatRef = useRef(new THREE.Quaternion());
     const followAnchorRef = useRef<THREE.Object3D | null>(null); // usually the Hips bone
@@ -523,12 +549,270 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
   // Lowered height so follow view isn't too high above the character.
   const followViewRef = useRef({ distance: 2, height: 0, side: 1.2 });
 
-      const playAudioWithEmotionAndLipSync = async (
+    // Seconds of scheduled speech still to play (0 when nothing is speaking)
+    const remainingSpeech = () => {
+      const utt = utteranceRef.current;
+      const audioCtx = audioContextRef.current;
+      if (!utt || !audioCtx || utt.segments.length === 0) return 0;
+      return Math.max(0, utt.endTime - Math.max(audioCtx.currentTime, utt.startTime));
+    };
+
+    // Pace a talking clip so a whole number of cycles fits the remaining speech,
+    // letting the body settle back to idle at a loop boundary as the audio ends.
+    const fitTalkingAction = (action: THREE.AnimationAction) => {
+      const clipDuration = action.getClip().duration;
+      const remaining = remainingSpeech();
+      if (!clipDuration || !remaining) {
+        action.timeScale = 1;
+        return;
+      }
+      const cycles = Math.max(1, Math.round(remaining / clipDuration));
+      action.timeScale = THREE.MathUtils.clamp(
+        (clipDuration * cycles) / remaining,
+        TALK_MIN_TIME_SCALE,
+        TALK_MAX_TIME_SCALE
+      );
+    };
+
+    // Random clip to open with, then a different one than the current
+    const pickTalkingAction = () => {
+      const actions = talkingActionsRef.current;
+      const current = currentlyPlayingTalkingActionRef.current;
+      const candidates = actions.length > 1 && current ? actions.filter((a) => a !== current) : actions;
+      return candidates.length ? candidates[Math.floor(Math.random() * candidates.length)] : null;
+    };
+
+    // Crossfade the body into a talking clip for the active utterance. The state
+    // table keeps this from interrupting BVH playback.
+    const startTalkingBody = () => {
+      animationMachineRef.current.transition("talking", { reason: "speech started" });
+    };
+
+    // At each loop of the talking clip: swap to the other clip while enough
+    // speech remains for it, and re-pace to the (possibly streamed) remainder.
+    const continueTalkingBody = () => {
+      const current = currentlyPlayingTalkingActionRef.current;
+      if (!current) return;
+      const next = pickTalkingAction();
+      if (next && next !== current && remainingSpeech() > next.getClip().duration * 0.5) {
+        current.fadeOut(TALK_SWAP_FADE);
+        next.reset().setEffectiveWeight(1).fadeIn(TALK_SWAP_FADE).play();
+        currentlyPlayingTalkingActionRef.current = next;
+        fitTalkingAction(next);
+        return;
+      }
+      fitTalkingAction(current);
+    };
+
+    const stopTalkingBody = (reason: string, fadeSeconds = TALK_FADE_OUT) => {
+      const machine = animationMachineRef.current;
+      if (machine.is("talking")) machine.transition("idle", { reason, fade: fadeSeconds });
+    };
+
+    // Base-layer animation states. Each state fades its own action in on entry
+    // and out on exit; the table decides which moves are legal and how long they
+    // crossfade. BVH playback starts its clip and drives the camera itself while
+    // in "bvh"; leaving the state fades the clip out.
+    const createAnimationMachine = () =>
+      new AnimationStateMachine<AnimationStateName>({
+        // The intro clip loads in the background and is entered from idle once it arrives
+        initial: "idle",
+        states: {
+          intro: {
+            onEnter: ({ fade }) => introActionRef.current?.reset().setEffectiveWeight(1).fadeIn(fade).play(),
+            onExit: ({ fade }) => introActionRef.current?.fadeOut(fade),
+          },
+          idle: {
+            onEnter: ({ fade }) => idleActionRef.current?.reset().setEffectiveWeight(1).fadeIn(fade).play(),
+            onExit: ({ fade }) => idleActionRef.current?.fadeOut(fade),
+          },
+          typing: {
+            onEnter: ({ fade }) => typingActionRef.current?.reset().setEffectiveWeight(1).fadeIn(fade).play(),
+            onExit: ({ fade }) => {
+              clearTypingHoldTimeout();
+              // clear frozen quaternions so subsequent animations are not clobbered
+              typingHeadQuatRef.current = null;
+              typingNeckQuatRef.current = null;
+              typingActionRef.current?.fadeOut(fade);
+            },
+          },
+          interrupt: {
+            onEnter: ({ fade }) => interruptActionRef.current?.reset().setEffectiveWeight(1).fadeIn(fade).play(),
+            onExit: ({ fade }) => interruptActionRef.current?.fadeOut(fade),
+          },
+          talking: {
+            onEnter: ({ fade }) => {
+              const next = pickTalkingAction();
+              if (!next) return;
+              currentlyPlayingTalkingActionRef.current = next;
+              fitTalkingAction(next);
+              next.reset().setEffectiveWeight(1).fadeIn(fade).play();
+            },
+            onExit: ({ fade }) => {
+              currentlyPlayingTalkingActionRef.current?.fadeOut(fade);
+              currentlyPlayingTalkingActionRef.current = null;
+            },
+          },
+          bvh: {
+            // stop the camera follow; playAnimation restores the camera itself
+            onExit: ({ fade }) => {
+              followAnchorRef.current = null;
+              bvhActionRef.current?.fadeOut(fade);
+              bvhActionRef.current = null;
+            },
+          },
+        },
+        transitions: [
+          { from: "idle", to: "intro", fade: 0.5, guard: () => !!introActionRef.current },
+          { from: "intro", to: "idle", fade: 0.5 },
+          { from: ["intro", "idle", "interrupt"], to: "typing", fade: 0.25, guard: () => !!typingActionRef.current },
+          { from: "typing", to: "interrupt", fade: 0.25, guard: () => !!interruptActionRef.current },
+          { from: "typing", to: "idle", fade: 0.25 },
+          { from: "interrupt", to: "idle", fade: 0.4 },
+          {
+            from: ["intro", "idle", "interrupt"],
+            to: "talking",
+            fade: TALK_FADE_IN,
+            guard: () => talkingActionsRef.current.length > 0,
+          },
+          { from: "talking", to: "idle", fade: TALK_FADE_OUT },
+          { from: "*", to: "bvh", fade: FADE_DURATION },
+          { from: "bvh", to: "idle", fade: FADE_DURATION },
+        ],
+      });
+    // Built once; the lazy initializer keeps later renders from building throwaway machines
+    const [animationMachine] = useState(createAnimationMachine);
+    const animationMachineRef = useRef(animationMachine);
+
+    // Switch the face emotion, letting the previous one ease out instead of
+    // leaving its morphs frozen at their last weights.
+    const setFaceEmotion = (emotion: Emotion, fadeSeconds = EMOTION_FADE) => {
+      const prev = currentSpeechEmotionRef.current;
+      if (prev === emotion) return;
+      if (prev !== "neutral") {
+        fadingEmotionRef.current = { emotion: prev, start: performance.now(), duration: fadeSeconds };
+      }
+      currentSpeechEmotionRef.current = emotion;
+    };
+
+    // Drop the cue timeline so the render loop relaxes the mouth closed, and
+    // let the speech emotion decay back to neutral.
+    const releaseSpeechFace = () => {
+      const faceMesh = faceMeshRef.current;
+      if (faceMesh) faceMesh.userData.visemes = [];
+      isWaitingAfterTalkRef.current = false;
+      setFaceEmotion("neutral");
+    };
+
+    const settleUtterance = (utt: ActiveUtterance) => {
+      utt.onEnded.forEach((cb) => { try { cb(); } catch {} });
+      utt.resolvers.forEach((r) => r());
+    };
+
+    // Tear down the active utterance: duck and stop every scheduled segment and
+    // settle anyone still awaiting it so replaced speech never leaves a dangling
+    // promise. `reason` is reported through onInterrupted (null on unmount).
+    const stopActiveUtterance = (reason: InterruptReason | null) => {
+      const utt = utteranceRef.current;
+      if (!utt) return;
+      utteranceRef.current = null;
+      const audioCtx = audioContextRef.current;
+      // A suspended context never reaches a future stop time, so cut immediately then
+      const running = audioCtx?.state === "running";
+      const stopAt = audioCtx && running ? audioCtx.currentTime + INTERRUPT_FADE : 0;
+      if (audioCtx && running) {
+        utt.gain.gain.setTargetAtTime(0, audioCtx.currentTime, INTERRUPT_FADE / 4);
+      }
+      for (const seg of utt.segments) {
+        try { seg.source.onended = null; } catch {}
+        try { seg.source.stop(stopAt); } catch {}
+      }
+      setTimeout(() => {
+        try { utt.gain.disconnect(); } catch {}
+      }, running ? INTERRUPT_FADE * 1000 + 50 : 0);
+      releaseSpeechFace();
+      if (reason) stopTalkingBody(`speech ${reason}`, TALK_FADE_IN);
+      if (reason && utt.started) {
+        try { speechEventsRef.current.onInterrupted?.(utt.info, reason); } catch {}
+      }
+      settleUtterance(utt);
+    };
+
+    // Called once the last scheduled segment has played and no more are expected.
+    const completeUtterance = (utt: ActiveUtterance) => {
+      if (utteranceRef.current !== utt) return;
+      isWaitingAfterTalkRef.current = true;
+      // Short release so the final shape can close before the next reply starts
+      setTimeout(() => {
+        if (utteranceRef.current !== utt) return;
+        utteranceRef.current = null;
+        try { utt.gain.disconnect(); } catch {}
+        releaseSpeechFace();
+        stopTalkingBody("speech ended");
+        if (utt.started) {
+          try { speechEventsRef.current.onUtteranceEnd?.(utt.info); } catch {}
+        }
+        settleUtterance(utt);
+      }, SPEECH_RELEASE * 1000);
+    };
+
+    const maybeCompleteUtterance = (utt: ActiveUtterance) => {
+      if (utt.open) return;
+      const audioCtx = audioContextRef.current;
+      const pending = utt.segments.some((s) => !s.ended);
+      if (!pending || (audioCtx && audioCtx.currentTime >= utt.endTime)) {
+        completeUtterance(utt);
+      }
+    };
+
+    // Map a time on the utterance's media timeline (seconds of concatenated audio)
+    // onto the schedule timeline the render loop reads. The two only diverge when a
+    // streamed segment arrived late and had to start after the previous one ended.
+    const mediaToScheduleTime = (utt: ActiveUtterance, mediaTime: number) => {
+      for (let i = utt.segments.length - 1; i >= 0; i--) {
+        const seg = utt.segments[i];
+        if (mediaTime >= seg.mediaStart) {
+          return seg.ctxStart - utt.startTime + (mediaTime - seg.mediaStart);
+        }
+      }
+      return mediaTime;
+    };
+
+    // Insert cues keeping the timeline sorted; streamed batches may arrive out of order.
+    const insertVisemes = (utt: ActiveUtterance, cues: VisemeCue[]) => {
+      const timeline = utt.visemes;
+      for (const cue of cues) {
+        let i = timeline.length;
+        while (i > 0 && timeline[i - 1].time > cue.time) i--;
+        timeline.splice(i, 0, cue);
+      }
+    };
+
+    // Lazily build the speech graph: sources -> bus -> destination, analyser off the bus
+    const ensureSpeechBus = (audioCtx: AudioContext) => {
+      if (speechBusRef.current && speechBusRef.current.context === audioCtx) {
+        return speechBusRef.current;
+      }
+      const bus = audioCtx.createGain();
+      bus.connect(audioCtx.destination);
+      const lipSync = new AnalyserLipSync(audioCtx);
+      bus.connect(lipSync.analyser);
+      speechBusRef.current = bus;
+      analyserLipSyncRef.current = lipSync;
+      return bus;
+    };
+
+    // Schedule one clip of speech. `scheduled` says whether an utterance took it
+    // (and with it options.onEnded, which then runs when that utterance ends or is
+    // stopped); `finished` settles when the utterance ends, unless keepOpen.
+    const scheduleSpeech = async (
       audioUrl: string,
-      visemes: { time: number; value: string; jaw: number }[],
+      visemes: VisemeCue[],
       emotion: Emotion,
-      onEndedCallback?: () => void
-    ) => {
+      options: SpeechOptions = {},
+      epoch = speechEpochRef.current
+    ): Promise<{ scheduled: boolean; finished?: Promise<void> }> => {
+      const dropped = () => speechEpochRef.current !== epoch;
       // Wait for face mesh to be ready (up to 3s) so we don't drop early calls
       const waitFace = async (timeoutMs = 3000) => {
         const start = performance.now();
@@ -540,28 +824,10 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
       };
       if (!faceMeshRef.current) {
         const ok = await waitFace(3000);
-        if (!ok) return; // still not ready
+        if (!ok) return { scheduled: false }; // still not ready
       }
       const faceMesh = faceMeshRef.current;
-      if (!faceMesh) return;
-
-      // Stop any previous scheduled source
-      try {
-        if (audioSourceRef.current) {
-          try { audioSourceRef.current.onended = null; } catch {}
-          try { audioSourceRef.current.stop(); } catch {}
-          audioSourceRef.current.disconnect();
-          audioSourceRef.current = null;
-        }
-      } catch (e) {}
-
-      isWaitingAfterTalkRef.current = false;
-      currentVisemeIndexRef.current = 0;
-      Object.keys(targetVisemeWeights).forEach((key) => {
-        if (key.startsWith("viseme_")) targetVisemeWeights[key] = 0;
-      });
-      targetJawOpen.current = 0;
-      currentSpeechEmotionRef.current = emotion;
+      if (!faceMesh) return { scheduled: false };
 
       // Ensure AudioContext
       const AudioCtor: any = window.AudioContext || (window as any).webkitAudioContext;
@@ -569,102 +835,173 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
       const audioCtx = audioContextRef.current;
       if (!audioCtx) {
         console.warn('No AudioContext available; cannot schedule audio precisely.');
-        return Promise.resolve();
+        return { scheduled: false };
       }
 
-      // Ensure context is running (required by some browsers)
-      try { if (audioCtx.state !== 'running') await audioCtx.resume(); } catch {}
+      // Ensure context is running (required by some browsers) unless speech is paused
+      try {
+        if (audioCtx.state !== 'running' && !speechPausedRef.current) await audioCtx.resume();
+      } catch {}
+      // Cancelled while waiting for the face or the audio context
+      if (dropped()) return { scheduled: false };
+
+      // Either extend the active utterance or replace it with a fresh one
+      let utt = options.append ? utteranceRef.current : null;
+      if (!utt) {
+        stopActiveUtterance("replaced");
+        const gain = audioCtx.createGain();
+        gain.connect(ensureSpeechBus(audioCtx));
+        utt = {
+          info: { id: ++utteranceIdRef.current, emotion, text: options.text },
+          gain,
+          started: false,
+          startTime: 0,
+          endTime: 0,
+          mediaEnd: 0,
+          segments: [],
+          visemes: [],
+          open: true,
+          lipSync: options.lipSync ?? "auto",
+          resolvers: [],
+          onEnded: [],
+        };
+        utteranceRef.current = utt;
+        isWaitingAfterTalkRef.current = false;
+        visemeSchedulerRef.current.reset();
+        Object.keys(targetVisemeWeights).forEach((key) => {
+          if (key.startsWith("viseme_")) targetVisemeWeights[key] = 0;
+        });
+        targetJawOpen.current = 0;
+        setFaceEmotion(emotion);
+        analyserLipSyncRef.current?.reset();
+      }
+      const activeUtt = utt;
+      if (options.onEnded) activeUtt.onEnded.push(options.onEnded);
+      activeUtt.open = !!options.keepOpen;
 
-      return new Promise<void>(async (resolve) => {
-        try {
-          // Fetch and decode audio (works for data: URIs and remote urls)
-          const resp = await fetch(audioUrl);
-          const arrayBuffer = await resp.arrayBuffer();
-          const audioBuffer = await audioCtx.decodeAudioData(arrayBuffer.slice(0));
-
-          const source = audioCtx.createBufferSource();
-          source.buffer = audioBuffer;
-          source.connect(audioCtx.destination);
-          audioSourceRef.current = source;
-
-          source.onended = () => {
-            isWaitingAfterTalkRef.current = true;
-            source.onended = null;
-            setTimeout(() => {
-              if (faceMesh) {
-                faceMesh.userData.visemes = [];
-              }
-              isWaitingAfterTalkRef.current = false;
-              currentSpeechEmotionRef.current = "neutral";
-              if (onEndedCallback) onEndedCallback();
-              resolve();
-            }, 2000);
-          };
-
-          // Small scheduling delay to ensure decode/time alignment
-          const startTime = audioCtx.currentTime + 0.06;
-          faceMesh.userData.visemes = visemes;
-          faceMesh.userData.audioStartTime = startTime;
-
-          source.start(startTime);
-        } catch (err) {
-          console.error('playAudioWithEmotionAndLipSync scheduling error', err);
-          resolve();
-        }
-      });
-    };
+      const finished = new Promise<void>((resolve) => activeUtt.resolvers.push(resolve));
 
-    const retargetClip = (clip: THREE.AnimationClip) => {
       try {
-        // Debug: show original track names (first few)
-        console.log(
-          "ThreeCanvas: FBX clip original tracks:",
-          clip.tracks.slice(0, 8).map((t) => t.name)
-        );
-      } catch {}
+        // Fetch and decode audio (works for data: URIs and remote urls)
+        const resp = await fetch(audioUrl);
+        const arrayBuffer = await resp.arrayBuffer();
+        const audioBuffer = await audioCtx.decodeAudioData(arrayBuffer.slice(0));
+        // Replaced or cancelled while decoding
+        if (utteranceRef.current !== activeUtt || dropped()) {
+          if (utteranceRef.current === activeUtt) stopActiveUtterance("replaced");
+          return { scheduled: true, finished };
+        }
 
-      // Helper to canonicalize FBX bone names like "mixamorig:Hips" -> "mixamorigHips"
-      const canonicalize = (name: string) => name.replace(/mixamorig:/gi, "mixamorig");
-
-      // Drop root translation tracks that can yank the model around
-      clip.tracks = clip.tracks.filter((track) => {
-        const bone = track.name.split(".")[0];
-        const canon = canonicalize(bone);
-        const isRootPos =
-          track.name.endsWith(".position") &&
-          (canon === "mixamorigHips" || canon === "Hips");
-        return !isRootPos;
-      });
+        const source = audioCtx.createBufferSource();
+        source.buffer = audioBuffer;
+        source.connect(activeUtt.gain);
+
+        // Small scheduling delay to ensure decode/time alignment; appended
+        // segments start exactly where the previous one ends unless we underran.
+        const ctxStart = Math.max(activeUtt.endTime, audioCtx.currentTime + 0.06);
+        const isFirst = activeUtt.segments.length === 0;
+        if (isFirst) activeUtt.startTime = ctxStart;
+        const segment: SpeechSegment = {
+          source,
+          mediaStart: activeUtt.mediaEnd,
+          ctxStart,
+          duration: audioBuffer.duration,
+          ended: false,
+        };
+        activeUtt.segments.push(segment);
+        activeUtt.mediaEnd += audioBuffer.duration;
+        activeUtt.endTime = ctxStart + audioBuffer.duration;
+
+        // No cues from the backend: align the text against this audio locally
+        let segmentVisemes = visemes;
+        if (segmentVisemes.length === 0 && options.text && activeUtt.lipSync !== "analyser") {
+          segmentVisemes = alignVisemes(options.text, audioBuffer);
+        }
 
-      clip.tracks.forEach((track) => {
-        const parts = track.name.split(".");
-        const boneRaw = parts[0];
-        const canon = canonicalize(boneRaw);
-        let targetBone = boneNameMap[canon];
-        if (!targetBone) {
-          // If it's already a target-style bone name (e.g., "Hips", "Spine1"), keep it
-          if (/^(Hips|Spine|Spine1|Spine2|Neck|Head|Left|Right)/.test(canon)) {
-            targetBone = canon; // already correct
-          } else if (/^mixamorig/i.test(canon)) {
-            // Strip the mixamorig prefix and try the remainder (e.g., mixamorigLeftArm -> LeftArm)
-            const stripped = canon.replace(/^mixamorig/i, "");
-            if (boneNameMap[stripped]) targetBone = boneNameMap[stripped];
-            else targetBone = stripped; // best effort
-          } else {
-            targetBone = canon; // fallback
-          }
+        // Segment cues are relative to the segment's own audio
+        const offset = ctxStart - activeUtt.startTime;
+        insertVisemes(activeUtt, segmentVisemes.map((v) => ({ ...v, time: v.time + offset })));
+
+        source.onended = () => {
+          source.onended = null;
+          segment.ended = true;
+          maybeCompleteUtterance(activeUtt);
+        };
+
+        if (isFirst) {
+          faceMesh.userData.visemes = activeUtt.visemes;
+          faceMesh.userData.audioStartTime = activeUtt.startTime;
         }
-        if (targetBone && targetBone !== boneRaw) {
-          track.name = track.name.replace(boneRaw, targetBone);
+        source.start(ctxStart);
+        if (!activeUtt.started) {
+          activeUtt.started = true;
+          if (!speechPausedRef.current) startTalkingBody();
+          try { speechEventsRef.current.onUtteranceStart?.(activeUtt.info); } catch {}
         }
-      });
+      } catch (err) {
+        console.error('playAudioWithEmotionAndLipSync scheduling error', err);
+        if (utteranceRef.current === activeUtt) maybeCompleteUtterance(activeUtt);
+      }
 
-      try {
-        console.log(
-          "ThreeCanvas: FBX clip retargeted tracks:",
-          clip.tracks.slice(0, 8).map((t) => t.name)
-        );
-      } catch {}
+      // Streaming callers get control back as soon as the segment is scheduled
+      return { scheduled: true, finished: options.keepOpen ? undefined : finished };
+    };
+
+    const playAudioWithEmotionAndLipSync = async (
+      audioUrl: string,
+      visemes: VisemeCue[],
+      emotion: Emotion,
+      options: SpeechOptions = {},
+      epoch = speechEpochRef.current
+    ) => {
+      const { finished } = await scheduleSpeech(audioUrl, visemes, emotion, options, epoch);
+      await finished;
+    };
+
+    // Close a streamed utterance: no more segments will be appended, so it ends
+    // once the already-scheduled audio has played out.
+    const finishUtterance = (): Promise<void> => {
+      const utt = utteranceRef.current;
+      if (!utt) return Promise.resolve();
+      const finished = new Promise<void>((resolve) => utt.resolvers.push(resolve));
+      utt.open = false;
+      if (utt.segments.length === 0) completeUtterance(utt);
+      else maybeCompleteUtterance(utt);
+      return finished;
+    };
+    // Move a loaded clip onto the character on stage by renaming its tracks
+    // (retargeting.ts), then drop the keys its curves don't need
+    const retargetClip = (clip: THREE.AnimationClip) => {
+      const body = bodyMeshRef.current;
+      const rig = targetRigRef.current;
+      if (!body || !rig) return clip;
+      const { source, aligned } = retargetClipByName(clip, rig, body.skeleton, clipRestPoses.get(clip));
+      const report = optimizeClip(clip);
+      logClipDebug(
+        `ThreeCanvas: retargeted ${source.convention} clip to ${rig.convention} rig` + (aligned ? " (rest pose aligned)" : "")
+      );
+      logClipDebug("ThreeCanvas: optimized clip", describeClipReport(report));
+      return clip;
+    };
+
+    // Clip for an FBX url, not yet retargeted: from a precompiled bundle when one
+    // has it (animationBundles.ts), otherwise parsed from the file. `resources`
+    // holds the FBX for its owner; without it the file is only borrowed from the cache.
+    const loadAnimationClip = async (
+      url: string,
+      resources?: ResourceTracker,
+      onProgress?: (event: ProgressEvent) => void
+    ): Promise<THREE.AnimationClip> => {
+      const bundled = await findBundledClip(url);
+      if (bundled) {
+        clipRestPoses.set(bundled.clip, bundled.rest);
+        return bundled.clip;
+      }
+      const fbx = resources ? await resources.use(fbxCache, url, onProgress) : await fbxCache.load(url);
+      const source = fbx.animations?.[0];
+      if (!source) throw new Error(`${url} has no animation`);
+      const clip = source.clone();
+      clipRestPoses.set(clip, restPoseOf(fbx));
       return clip;
     };
 
@@ -744,61 +1081,135 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
       });
     };
 
-    useImperativeHandle(ref, () => ({
-      playAudioWithEmotionAndLipSync: async (
-        audioBase64OrUrl,
-        visemes,
-        emotion
-      ) => {
-        // Ensure typing pose is cleared before speech
-        if (typingActiveRef.current) {
-          typingActiveRef.current = false;
-          const idle = idleActionRef.current;
-          const playlist = loopActionsRef.current;
-          // Resume loop or idle
-          if (playlist.length > 0) {
-            const prev = currentLoopActionRef.current;
-            if (prev?.isRunning()) prev.fadeOut(0.3);
-            currentLoopIndexRef.current = (currentLoopIndexRef.current + 1) % playlist.length;
-            const next = playlist[currentLoopIndexRef.current];
-            next.reset().setEffectiveWeight(1).fadeIn(0.3).play();
-            currentLoopActionRef.current = next;
-          } else if (idle) {
-            idle.reset().setEffectiveWeight(1).fadeIn(0.3).play();
-          }
-        }
-        const isBase64 = audioBase64OrUrl.startsWith("data:audio");
-        if (isBase64) {
-          const audioBlob = await (await fetch(audioBase64OrUrl)).blob();
-          const audioUrl = URL.createObjectURL(audioBlob);
-          await playAudioWithEmotionAndLipSync(
-            audioUrl,
-            visemes,
-            emotion,
-            () => {
-              URL.revokeObjectURL(audioUrl);
-            }
-          );
-        } else {
-          await playAudioWithEmotionAndLipSync(
-            audioBase64OrUrl,
-            visemes,
-            emotion
-          );
+    // Entry point for all speech: releases the typing pose and turns data: URIs
+    // into blob URLs before scheduling.
+    const speak = async (
+      audioBase64OrUrl: string,
+      visemes: VisemeCue[],
+      emotion: Emotion,
+      options: SpeechOptions = {}
+    ) => {
+      // Ensure typing pose is cleared before speech
+      if (animationMachineRef.current.is("typing")) {
+        animationMachineRef.current.transition("idle", { reason: "speech", fade: 0.3 });
+      }
+      // Taken before any await: a cancel while the audio converts drops this call
+      const epoch = speechEpochRef.current;
+      let audioUrl = audioBase64OrUrl;
+      let onEnded = options.onEnded;
+      if (audioBase64OrUrl.startsWith("data:audio")) {
+        const audioBlob = await (await fetch(audioBase64OrUrl)).blob();
+        if (speechEpochRef.current !== epoch) {
+          options.onEnded?.();
+          return;
         }
+        const blobUrl = URL.createObjectURL(audioBlob);
+        audioUrl = blobUrl;
+        onEnded = () => {
+          URL.revokeObjectURL(blobUrl);
+          options.onEnded?.();
+        };
+      }
+      // An utterance that takes the audio runs onEnded when it ends or is stopped;
+      // a call that never got that far (no face, no AudioContext, dropped by a
+      // cancel) runs it here, so the blob URL is revoked either way
+      let scheduled = false;
+      try {
+        const result = await scheduleSpeech(audioUrl, visemes, emotion, { ...options, onEnded }, epoch);
+        scheduled = result.scheduled;
+        await result.finished;
+      } finally {
+        if (!scheduled) onEnded?.();
+      }
+    };
+
+    // Play queued utterances one after another. Each waits for the previous one to
+    // finish (or be skipped) before its audio is fetched and scheduled.
+    const pumpSpeechQueue = async () => {
+      if (speechQueueBusyRef.current) return;
+      const next = speechQueueRef.current.shift();
+      if (!next) return;
+      speechQueueBusyRef.current = true;
+      try {
+        await speak(next.audio, next.visemes, next.emotion, { ...next.options, append: false, keepOpen: false });
+      } catch (err) {
+        console.error("ThreeCanvas: queued utterance failed", err);
+      } finally {
+        speechQueueBusyRef.current = false;
+        next.resolve();
+        void pumpSpeechQueue();
+      }
+    };
+
+    const enqueueUtterance = (utterance: QueuedUtterance) =>
+      new Promise<void>((resolve) => {
+        speechQueueRef.current.push({ ...utterance, resolve });
+        void pumpSpeechQueue();
+      });
+
+    // Forget queued utterances, settling their promises, and drop calls still
+    // preparing their audio
+    const clearSpeechQueue = () => {
+      speechEpochRef.current += 1;
+      const dropped = speechQueueRef.current;
+      speechQueueRef.current = [];
+      dropped.forEach((u) => u.resolve());
+    };
+
+    const cancelSpeech = () => {
+      clearSpeechQueue();
+      stopActiveUtterance("cancelled");
+      // A barge-in also lifts a pause so the next reply is audible
+      if (speechPausedRef.current) void resumeSpeech();
+    };
+
+    // Pausing also lets the body settle to idle; resuming picks the talking clips up again
+    const pauseSpeech = async () => {
+      speechPausedRef.current = true;
+      stopTalkingBody("speech paused", TALK_FADE_IN);
+      const audioCtx = audioContextRef.current;
+      try { if (audioCtx?.state === "running") await audioCtx.suspend(); } catch {}
+    };
+
+    const resumeSpeech = async () => {
+      speechPausedRef.current = false;
+      const audioCtx = audioContextRef.current;
+      try { if (audioCtx && audioCtx.state !== "running") await audioCtx.resume(); } catch {}
+      if (utteranceRef.current?.started) startTalkingBody();
+    };
+
+    useImperativeHandle(ref, () => ({
+      // A direct call takes over from anything playing or queued unless appending
+      playAudioWithEmotionAndLipSync: (audioBase64OrUrl, visemes, emotion, options = {}) => {
+        if (!options.append) clearSpeechQueue();
+        return speak(audioBase64OrUrl, visemes, emotion, options);
       },
+      appendVisemes: (visemes) => {
+        const utt = utteranceRef.current;
+        if (!utt) return;
+        insertVisemes(
+          utt,
+          visemes.map((v) => ({ ...v, time: mediaToScheduleTime(utt, v.time) }))
+        );
+      },
+      finishUtterance,
+      enqueueUtterance,
+      cancelSpeech,
+      skipUtterance: () => stopActiveUtterance("skipped"),
+      pauseSpeech,
+      resumeSpeech,
+      isSpeaking: () => !!utteranceRef.current || speechQueueRef.current.length > 0,
       // Backwards-compatible wrapper some pages use
       playAudioWithLipSync: async (audioBase64OrUrl: string, visemes: any[]) => {
         // Default to neutral emotion
         return playAudioWithEmotionAndLipSync(audioBase64OrUrl, visemes || [], "neutral");
       },
-      // Play one or more Mixamo-style gesture FBX files as one-shot overlays.
-      playGestures: async (urls) => {
+      // Play one or more Mixamo-style gesture FBX files as additive one-shot overlays.
+      playGestures: async (urls, options = {}) => {
         // Ensure typing pose is released so gestures do not inherit a frozen look-down pose
-        clearTypingHoldTimeout();
-        typingActiveRef.current = false;
-        typingHeadQuatRef.current = null;
-        typingNeckQuatRef.current = null;
+        if (animationMachineRef.current.is("typing")) {
+          animationMachineRef.current.transition("idle", { reason: "gesture" });
+        }
         // If we captured a neutral base pose for head/neck, restore it now so gestures start from neutral
         try {
           if (hasCapturedBasePoseRef.current) {
@@ -820,7 +1231,7 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
         const waitForReady = async (timeoutMs = 5000) => {
           const start = performance.now();
           while (performance.now() - start < timeoutMs) {
-            if (mixerRef.current && bodyMeshRef.current) return true;
+            if (mixerRef.current && bodyMeshRef.current && layersRef.current) return true;
             // small backoff
             await new Promise((r) => setTimeout(r, 100));
           }
@@ -833,19 +1244,14 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
           return;
         }
 
-        const mixer = mixerRef.current as THREE.AnimationMixer;
-        const target = bodyMeshRef.current as THREE.Object3D;
+        const layers = layersRef.current;
+        if (!layers) return;
 
         for (const u of list) {
           const url = String(u);
           console.log('ThreeCanvas.playGestures: loading', url);
           try {
-            const loaded: any = await loadFBXCached(url);
-            if (!loaded || !loaded.animations || loaded.animations.length === 0) {
-              console.warn('ThreeCanvas.playGestures: no animations in', url);
-              continue;
-            }
-            const clip = retargetClip(loaded.animations[0].clone());
+            const clip = retargetClip(await loadAnimationClip(url));
 
             // Dedupe quaternion tracks for hands to avoid sudden wrist flips
             const seenQuat = new Set<string>();
@@ -862,49 +1268,8 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
             }
             clip.tracks = deduped;
 
-            const action = mixer.clipAction(clip as any, target as any);
-            action.setLoop(THREE.LoopOnce, 1);
-            action.clampWhenFinished = true;
-
-            // Fade out current talking/loop/idle action to make gesture visible
-            console.log('ThreeCanvas.playGestures: starting gesture, fading out base animations');
-            const prevTalking = currentlyPlayingTalkingActionRef.current;
-            const prevLoop = currentLoopActionRef.current;
-            const idle = idleActionRef.current;
-            try {
-              if (prevTalking?.isRunning()) {
-                prevTalking.fadeOut(0.15);
-              } else if (prevLoop?.isRunning()) {
-                prevLoop.fadeOut(0.15);
-              } else if (idle?.isRunning()) {
-                idle.fadeOut(0.15);
-              }
-            } catch (e) {
-              // ignore
-            }
-
-            action.reset().setEffectiveWeight(1).fadeIn(0.15).play();
-
-            await new Promise<void>((resolve) => {
-              const onFinished = (e: any) => {
-                if (e.action === action) {
-                  try { mixer.removeEventListener('finished', onFinished); } catch {}
-                  action.fadeOut(0.15);
-                  // Restore previous actions
-                  try {
-                    if (prevTalking) {
-                      prevTalking.reset().setEffectiveWeight(1).fadeIn(0.2).play();
-                    } else if (prevLoop) {
-                      prevLoop.reset().setEffectiveWeight(1).fadeIn(0.2).play();
-                    } else if (idle) {
-                      idle.reset().setEffectiveWeight(1).fadeIn(0.2).play();
-                    }
-                  } catch (err) {}
-                  resolve();
-                }
-              };
-              mixer.addEventListener('finished', onFinished);
-            });
+            // Additive over the base layer: idle/talking keeps running underneath
+            await layers.playGesture(clip, { mask: 'upperBody', ...options });
             console.log('ThreeCanvas.playGestures: finished', url);
           } catch (err) {
             console.warn('ThreeCanvas.playGestures: failed to load/play', url, err);
@@ -928,15 +1293,12 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
                 return reject(new Error("BVH file has no animation data"));
               }
 
-              // Clean reset like debug.html
-              // Release any frozen typing pose so BVH retarget doesn't inherit a look-down
-              clearTypingHoldTimeout();
-              typingActiveRef.current = false;
-              typingHeadQuatRef.current = null;
-              typingNeckQuatRef.current = null;
+              // Entering "bvh" fades out whatever plays now and releases any
+              // frozen typing pose (its exit hook); the clip crossfades in below.
+              const machine = animationMachineRef.current;
+              machine.transition("bvh", { reason: url });
 
-              mixer.stopAllAction();
-              bodyMesh.skeleton.pose();
+              layersRef.current?.stopGestures();
               // Restore neutral head/neck base pose if available so BVH starts from a neutral orientation
               try {
                 if (hasCapturedBasePoseRef.current) {
@@ -955,11 +1317,13 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
               // const stripped = bvh.clip.clone();
               // stripped.tracks = stripped.tracks.filter(t => !t.name.endsWith('Hips.position'));
 
-              const clip = SkeletonUtils.retargetClip(
-                bodyMesh,
-                bvh.skeleton,
-                bvh.clip,
-                RPM_TPOSE_RETARGET_OPTIONS
+              const targetRig = targetRigRef.current ?? detectRig(bodyMesh.skeleton.bones.map((bone) => bone.name));
+              // Aligned to the character's bind pose, so the first frame is a natural
+              // pose to crossfade into rather than the BVH's own rest
+              const { clip, source, aligned } = retargetPoseClip(bodyMesh, targetRig, bvh.skeleton, bvh.clip);
+              console.log(
+                `ThreeCanvas: retargeted ${source.convention} BVH to ${targetRig.convention} rig` +
+                  (aligned ? " (rest pose aligned)" : "")
               );
 
               // Dedupe wrist quaternion tracks to avoid over-rotation
@@ -980,6 +1344,11 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
               }
               clip.tracks = deduped;
 
+              // Finger joints of mocap BVH (CMU) curl the hands into fists on this
+              // rig, so they are dropped
+              const report = optimizeClip(clip, { skeleton: bodyMesh.skeleton, dropFingers: true });
+              logClipDebug("ThreeCanvas: optimized BVH clip", describeClipReport(report));
+
               const action = mixer.clipAction(clip, bodyMesh);
               action.setLoop(THREE.LoopOnce, 1);
               action.clampWhenFinished = true;
@@ -1023,25 +1392,27 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
                 controls.enableRotate = false; // ensure perfect centering
                 controls.enableDamping = false; // avoid damping-induced drift
                 controls.update();
-
-                isFollowingRef.current = true;
               }
 
-              idleAction.fadeOut(FADE_DURATION);
+              // The machine faded the previous state out when "bvh" was entered;
+              // a BVH clip still playing from an earlier call hands over here
+              bvhActionRef.current?.fadeOut(FADE_DURATION);
+              bvhActionRef.current = action;
               action.reset().fadeIn(FADE_DURATION).play();
 
               const onFinished = (e: any) => {
                 if (e.action === action) {
                   mixer.removeEventListener("finished", onFinished);
+                  // Superseded by a later playAnimation, which finishes the playback
+                  if (bvhActionRef.current !== action) {
+                    resolve();
+                    return;
+                  }
 
-                  // Async finish flow: fade out, reset pose and camera, fade in idle
+                  // Finish: reset the camera and crossfade from the last frame to idle
                   (async () => {
                     try {
-                      isFollowingRef.current = false;
-                      const modelRootFinish = modelRootRef.current || bodyMesh.parent;
-                      if (modelRootFinish) {
-                        await fadeObjectOpacity(modelRootFinish, 0, OPACITY_FADE);
-                      }
+                      followAnchorRef.current = null;
 
                       // Reset camera back to start
                       const cam = cameraRef.current;
@@ -1066,10 +1437,6 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
                         ctrls.update();
                       }
 
-                      // Reset skeleton/model and return to idle
-                      mixer.stopAllAction();
-                      action.stop();
-                      bodyMesh.skeleton.pose();
                       const modelRootReset = modelRootRef.current || bodyMesh.parent;
                       if (modelRootReset) {
                         modelRootReset.position.copy(modelStartPosRef.current);
@@ -1077,15 +1444,14 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
                         (modelRootReset as any).updateMatrixWorld?.(true);
                       }
 
-                        idleAction.reset().setEffectiveWeight(1).fadeIn(FADE_DURATION).play();
-
-                      if (modelRootFinish) {
-                        await fadeObjectOpacity(modelRootFinish, 1, OPACITY_FADE);
-                      }
+                      // Leaving "bvh" fades the clip out while idle fades in
+                      machine.transition("idle", { reason: "bvh finished" });
                     } catch (err) {
                       console.error(err);
                       // Fallback to simple fade to idle
-                      idleAction.reset().setEffectiveWeight(1).fadeIn(1).play();
+                      if (!machine.transition("idle", { reason: "bvh failed", fade: 1 })) {
+                        idleAction.reset().setEffectiveWeight(1).fadeIn(1).play();
+                      }
                     } finally {
                       resolve();
                     }
@@ -1102,118 +1468,72 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
         });
       },
       setStaticEmotion: (emotion) => {
-        currentSpeechEmotionRef.current = emotion;
+        setFaceEmotion(emotion);
       },
       setTyping: (isTyping: boolean) => {
+        const machine = animationMachineRef.current;
+        typingRequestedRef.current = isTyping;
+        if (!isTyping) {
+          leaveTyping("typing stopped");
+          return;
+        }
+        // If already in typing mode, don't restart the pose
+        if (machine.is("typing")) return;
+        if (typingActionRef.current) {
+          // Fade out the current state, then play typing pose once and hold
+          machine.transition("typing", { reason: "typing started" });
+          return;
+        }
         const mixer = mixerRef.current;
-        const idle = idleActionRef.current;
-        const typingAction = typingActionRef.current;
-        if (!mixer || !idle || !typingAction) {
-          // If typing action isn't available yet, try to load it asynchronously
-          if (!mixer || !idle) {
-            typingActiveRef.current = false;
-            return;
-          }
-          // Mark desired state and attempt to load/create the typing action
-          typingActiveRef.current = isTyping;
-          (async () => {
-            try {
-              const candidates = [
-                typingAnimationUrl,
-                "/idleanimations/waitingprompt.fbx",
-                "/idleanimations/waiting.fbx",
-              ].filter(Boolean) as string[];
-              let loaded: any = null;
-              for (const url of candidates) {
-                try {
-                  loaded = await loadFBXCached(url);
-                  console.log("ThreeCanvas: dynamically loaded typing animation:", url);
-                  break;
-                } catch (e) {
-                  console.warn("ThreeCanvas: failed to load typing candidate:", url, e);
-                }
-              }
-              if (!loaded || !loaded.animations || loaded.animations.length === 0) {
-                console.warn("ThreeCanvas: no typing animation found after dynamic load");
-                typingActiveRef.current = false;
-                return;
-              }
-              const clip = retargetClip(loaded.animations[0].clone());
-              const target = bodyMeshRef.current;
-              if (!target) {
-                console.warn("ThreeCanvas: body mesh missing, cannot bind typing action");
-                typingActiveRef.current = false;
-                return;
-              }
-              const ta = mixer.clipAction(clip, target);
-              ta.setLoop(THREE.LoopOnce, 1);
-              ta.clampWhenFinished = true;
-              typingActionRef.current = ta;
-              // If caller still wants typing, play now
-              if (typingActiveRef.current) {
-                if (currentLoopActionRef.current?.isRunning()) currentLoopActionRef.current.fadeOut(0.25);
-                else if (idle.isRunning()) idle.fadeOut(0.25);
-                ta.reset().setEffectiveWeight(1).fadeIn(0.25).play();
+        if (!mixer || !idleActionRef.current) return;
+        // Typing action isn't available yet: load it, then enter typing if still wanted
+        (async () => {
+          try {
+            const candidates = [
+              typingAnimationUrl,
+              "/idleanimations/waitingprompt.fbx",
+              "/idleanimations/waiting.fbx",
+            ].filter(Boolean) as string[];
+            let clip: THREE.AnimationClip | null = null;
+            for (const url of candidates) {
+              try {
+                clip = retargetClip(await loadAnimationClip(url));
+                console.log("ThreeCanvas: dynamically loaded typing animation:", url);
+                break;
+              } catch (e) {
+                console.warn("ThreeCanvas: failed to load typing candidate:", url, e);
               }
-              // Capture final pose when this dynamically loaded typing action finishes
-              const onDynFinished = (e: any) => {
-                if (e.action === ta) {
-                  try { mixer.removeEventListener("finished", onDynFinished); } catch {}
-                  const head = headBoneRef.current;
-                  const neck = neckBoneRef.current;
-                  if (head) typingHeadQuatRef.current = head.quaternion.clone();
-                  if (neck) typingNeckQuatRef.current = neck.quaternion.clone();
-                  // Release the frozen typing pose after a short hold so we don't stay looking down
-                  releaseTypingPose(1400);
-                }
-              };
-              mixer.addEventListener("finished", onDynFinished);
-            } catch (err) {
-              console.warn("ThreeCanvas: error loading typing animation", err);
-              typingActiveRef.current = false;
             }
-          })();
-          return;
-        }
-        if (isTyping) {
-          // If already in typing mode, don't restart the pose
-          if (typingActiveRef.current) return;
-          typingActiveRef.current = true;
-          // Fade out any loop/idle action, then play typing pose once and hold
-          if (currentLoopActionRef.current?.isRunning()) {
-            currentLoopActionRef.current.fadeOut(0.25);
-          } else if (idle.isRunning()) {
-            idle.fadeOut(0.25);
-          }
-          typingAction.reset().setEffectiveWeight(1).fadeIn(0.25).play();
-        } else {
-          if (!typingActiveRef.current) return;
-          typingActiveRef.current = false;
-          // Clear any hold timer and frozen quats
-          clearTypingHoldTimeout();
-          typingHeadQuatRef.current = null;
-          typingNeckQuatRef.current = null;
-          // Return to loop or idle
-          const playlist = loopActionsRef.current;
-          if (playlist.length > 0) {
-            const prev = currentLoopActionRef.current;
-            if (prev?.isRunning()) prev.fadeOut(0.25);
-            currentLoopIndexRef.current = (currentLoopIndexRef.current + 1) % playlist.length;
-            const next = playlist[currentLoopIndexRef.current];
-            next.reset().setEffectiveWeight(1).fadeIn(0.25).play();
-            currentLoopActionRef.current = next;
-          } else {
-            idle.reset().setEffectiveWeight(1).fadeIn(0.25).play();
+            if (!clip) {
+              console.warn("ThreeCanvas: no typing animation found after dynamic load");
+              return;
+            }
+            const target = bodyMeshRef.current;
+            if (!target) {
+              console.warn("ThreeCanvas: body mesh missing, cannot bind typing action");
+              return;
+            }
+            const ta = mixer.clipAction(clip, target);
+            ta.setLoop(THREE.LoopOnce, 1);
+            ta.clampWhenFinished = true;
+            // its "finished" event is handled with the other state clips
+            typingActionRef.current = ta;
+            // If caller still wants typing, play now
+            if (typingRequestedRef.current) {
+              animationMachineRef.current.transition("typing", { reason: "typing started" });
+            }
+          } catch (err) {
+            console.warn("ThreeCanvas: error loading typing animation", err);
           }
-        }
+        })();
       },
       // Reset the skeleton, stop all actions and return to the idle loop.
       resetToIdle: () => {
         try {
           const mixer = mixerRef.current;
           const body = bodyMeshRef.current;
-          const idle = idleActionRef.current;
           // Stop any running actions
+          layersRef.current?.stopGestures();
           if (mixer) mixer.stopAllAction();
           // Restore skeleton bind pose
           if (body && body.skeleton) body.skeleton.pose();
@@ -1223,19 +1543,9 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
             modelRootRef.current.quaternion.copy(modelStartQuatRef.current);
             (modelRootRef.current as any).updateMatrixWorld?.(true);
           }
-          // Clear typing state
-          typingActiveRef.current = false;
-          clearTypingHoldTimeout();
-          typingHeadQuatRef.current = null;
-          typingNeckQuatRef.current = null;
-          // Reset loop/talking pointers
-          currentLoopActionRef.current = null;
-          currentlyPlayingTalkingActionRef.current = null;
-          animationStateRef.current = "idle";
-          // Ensure idle is playing
-          if (idle) {
-            idle.reset().setEffectiveWeight(1).fadeIn(FADE_DURATION).play();
-          }
+          // Re-enter idle whatever the state; exit hooks clear typing/talking leftovers
+          typingRequestedRef.current = false;
+          animationMachineRef.current.force("idle", { reason: "reset", fade: FADE_DURATION });
         } catch (err) {
           // ignore errors during best-effort reset
         }
@@ -1247,6 +1557,10 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
           idleAction: idleActionRef.current,
         };
       },
+      getAnimationState: () => ({
+        state: animationMachineRef.current.state,
+        history: animationMachineRef.current.history,
+      }),
   // Mixamo/gesture API removed — callers should no longer invoke this.
   }));
 
@@ -1258,32 +1572,27 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
     // etc.). Keeping only the consolidated effect prevents conflicts where the
     // visible model could be replaced or hidden by a second renderer.
 
-    // Handle assets after Promise.all resolves. Pulled out as a helper to keep
-    // the main effect body short and easier to read.
-    const handleAssetsLoaded = (
-      assets: any[],
-      scene: THREE.Scene,
-      camera: THREE.PerspectiveCamera,
-      controls: OrbitControls,
-      renderer: THREE.WebGLRenderer
-    ) => {
-      let assetIndex = 0;
-      const gltf = assets[assetIndex++] as any;
-
-      // Determine how many idle assets were requested (prop may be string | string[])
-      const idleCount = Array.isArray(idleAnimationUrl) ? idleAnimationUrl.length : 1;
-      const idleFbxs: any[] = [];
-      for (let i = 0; i < idleCount; i++) {
-        idleFbxs.push(assets[assetIndex++] as any);
-      }
-
-      const introFbx = introAnimationUrl ? (assets[assetIndex++] as any) : null;
-      const interruptFbx = interruptAnimationUrl ? (assets[assetIndex++] as any) : null;
-      const talkingFbx1 = talkingAnimationUrl1 ? (assets[assetIndex++] as any) : null;
-      const talkingFbx2 = talkingAnimationUrl2 ? (assets[assetIndex++] as any) : null;
-      const typingFbx = assets[assetIndex++] as any;
-
-      const characterModel = gltf.scene;
+    // Put a loaded model on stage with no clips yet; attachClip binds them as
+    // they arrive. Mixer events look the clips up through their refs, so late
+    // arrivals are handled the same as early ones.
+    const stageCharacter = (gltf: GLTF, scene: THREE.Scene, resources: ResourceTracker) => {
+      // The cached scene stays untouched: each character gets its own skeleton and
+      // materials (so fades don't leak into the cache), sharing geometry and textures
+      const characterModel = SkeletonUtils.clone(gltf.scene);
+      characterModel.traverse((child: any) => {
+        if (!child.isMesh) return;
+        child.material = Array.isArray(child.material)
+          ? child.material.map((m: THREE.Material) => m.clone())
+          : child.material.clone();
+      });
+      resources.track(() => {
+        characterModel.removeFromParent();
+        characterModel.traverse((child: any) => {
+          if (child.isSkinnedMesh) child.skeleton.dispose();
+          if (!child.isMesh) return;
+          (Array.isArray(child.material) ? child.material : [child.material]).forEach((m: THREE.Material) => m.dispose());
+        });
+      });
       scene.add(characterModel);
       bodyMeshRef.current =
         findBestSkinnedMesh(characterModel) ||
@@ -1297,230 +1606,176 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
       // Log bone list for debugging
       const modelBones = bodyMeshRef.current.skeleton.bones.map((bone) => bone.name);
       console.log("--- CHARACTER MODEL BONES (TARGET) ---", modelBones);
+      targetRigRef.current = detectRig(modelBones, {
+        humanoid: vrmHumanoid(gltf),
+        overrides: retargetOverridesRef.current,
+      });
+      console.log("ThreeCanvas: character rig", targetRigRef.current.convention);
 
       // Initialize mixer using the skinned mesh
-      mixerRef.current = new THREE.AnimationMixer(bodyMeshRef.current);
+      const mixer = new THREE.AnimationMixer(bodyMeshRef.current);
+      mixerRef.current = mixer;
+      layersRef.current = new AnimationLayers(mixer, targetRigRef.current, bodyMeshRef.current);
       characterModel.traverse((object: any) => {
         if (object.isMesh) object.castShadow = true;
-        if (object.isSkinnedMesh && object.morphTargetDictionary) {
-          if (
-            object.name === "Wolf3D_Head" ||
-            object.name === "Wolf3D_Avatar" ||
-            object.name === "head"
-          ) {
-            faceMeshRef.current = object;
-          }
-        }
       });
+      bindFaceMesh(characterModel);
+      idleActionsRef.current = [];
 
-      // Create idle actions for each loaded idle FBX. If multiple were provided
-      // we'll sequence through them one-shot style; otherwise keep the single idle looping.
-      const bodyTarget = bodyMeshRef.current || characterModel;
-      const idleActions: THREE.AnimationAction[] = [];
-      for (let i = 0; i < idleFbxs.length; i++) {
-        const fbx = idleFbxs[i];
-        if (!fbx || !fbx.animations || fbx.animations.length === 0) continue;
-        const clip = retargetClip(fbx.animations[0].clone());
-        const action = mixerRef.current!.clipAction(clip, bodyTarget);
-        if (idleFbxs.length > 1) {
-          action.setLoop(THREE.LoopOnce, 1);
-          action.clampWhenFinished = true;
-        } else {
-          action.setLoop(THREE.LoopRepeat, Infinity);
-          action.clampWhenFinished = false;
-        }
-        idleActions.push(action);
-      }
-
-      // Play the first idle action
-      if (idleActions.length > 0) {
-        idleActions[0].reset().play();
-        idleActionRef.current = idleActions[0];
-      }
+      mixer.addEventListener("loop", (e: any) => {
+        if (e.action === currentlyPlayingTalkingActionRef.current) continueTalkingBody();
+      });
 
-      let introAction: THREE.AnimationAction | null = null;
-      let interruptAction: THREE.AnimationAction | null = null;
-      let talkingAction1: THREE.AnimationAction | null = null;
-      let talkingAction2: THREE.AnimationAction | null = null;
-      let ambientAction: THREE.AnimationAction | null = null;
+      // One-shot states hand back to idle when their clip ends; the typing
+      // clip instead holds its last frame for a moment first. With several idle
+      // clips, each finished one hands over to the next.
+      mixer.addEventListener("finished", (e: any) => {
+        const machine = animationMachineRef.current;
+        const finished = e.action as THREE.AnimationAction;
+        const idles = idleActionsRef.current;
+        if (finished === introActionRef.current && machine.is("intro")) {
+          machine.transition("idle", { reason: "intro finished" });
+        } else if (finished === interruptActionRef.current && machine.is("interrupt")) {
+          machine.transition("idle", { reason: "interrupt finished" });
+        } else if (finished === typingActionRef.current) {
+          onTypingClipFinished();
+        } else if (idles.length > 1 && finished === idleActionRef.current) {
+          try { finished.fadeOut(0.2); } catch (err) {}
+          const next = idles[(idles.indexOf(finished) + 1) % idles.length];
+          idleActionRef.current = next;
+          // Outside idle, only advance; the next idle fades in when the state returns
+          if (!machine.is("idle")) return;
+          next.reset().fadeIn(0.2).play();
+        }
+      });
+    };
 
-      if (introFbx) {
-        introAction = mixerRef.current.clipAction(
-          retargetClip(introFbx.animations[0]),
-          bodyMeshRef.current
-        );
-        introAction.setLoop(THREE.LoopOnce, 1);
-        introAction.clampWhenFinished = true;
-        // If we fade into intro, reduce idle influence
-        if (idleActionRef.current) idleActionRef.current.weight = 0;
-        introAction.play();
-      }
-      if (interruptFbx) {
-        interruptAction = mixerRef.current.clipAction(
-          retargetClip(interruptFbx.animations[0]),
-          bodyMeshRef.current
-        );
-        interruptAction.setLoop(THREE.LoopOnce, 1);
-        interruptAction.clampWhenFinished = true;
+    // Bind a clip that arrived for the character on stage
+    const attachClip = (kind: Exclude<AssetKind, "model">, clip: THREE.AnimationClip) => {
+      const mixer = mixerRef.current;
+      const body = bodyMeshRef.current;
+      if (!mixer || !body) {
+        console.warn(`ThreeCanvas: no character to attach ${kind} to`);
+        return;
       }
-      if (typingFbx) {
-        const ta = mixerRef.current.clipAction(retargetClip(typingFbx.animations[0]), bodyMeshRef.current);
-        ta.setLoop(THREE.LoopOnce, 1);
-        ta.clampWhenFinished = true; // hold final pose
-        typingActionRef.current = ta;
-        const onTypingFinished = (e: any) => {
-          if (e.action === ta) {
-            try { mixerRef.current?.removeEventListener("finished", onTypingFinished); } catch {}
-            const head = headBoneRef.current;
-            const neck = neckBoneRef.current;
-            if (head) typingHeadQuatRef.current = head.quaternion.clone();
-            if (neck) typingNeckQuatRef.current = neck.quaternion.clone();
-            releaseTypingPose(1400);
+      const action = mixer.clipAction(retargetClip(clip), body);
+      const machine = animationMachineRef.current;
+      switch (kind) {
+        case "idle": {
+          // A single idle loops; several play once each, in turn
+          const idles = idleActionsRef.current;
+          idles.push(action);
+          for (const idle of idles) {
+            idle.setLoop(idles.length > 1 ? THREE.LoopOnce : THREE.LoopRepeat, idles.length > 1 ? 1 : Infinity);
+            idle.clampWhenFinished = idles.length > 1;
           }
-        };
-        mixerRef.current.addEventListener("finished", onTypingFinished);
-      }
-
-      if (talkingFbx1) {
-        talkingAction1 = mixerRef.current.clipAction(retargetClip(talkingFbx1.animations[0]));
-        talkingAction1.setLoop(THREE.LoopRepeat, Infinity);
-      }
-      if (talkingFbx2) {
-        talkingAction2 = mixerRef.current.clipAction(retargetClip(talkingFbx2.animations[0]));
-        talkingAction2.setLoop(THREE.LoopRepeat, Infinity);
+          if (idles.length === 1) {
+            idleActionRef.current = action;
+            if (machine.is("idle")) action.reset().play();
+          }
+          break;
+        }
+        case "intro":
+          action.setLoop(THREE.LoopOnce, 1);
+          action.clampWhenFinished = true;
+          introActionRef.current = action;
+          // Loaded after the character started idling: play it now unless it is busy
+          machine.transition("intro", { reason: "intro clip loaded" });
+          break;
+        case "interrupt":
+          action.setLoop(THREE.LoopOnce, 1);
+          action.clampWhenFinished = true;
+          interruptActionRef.current = action;
+          break;
+        case "typing":
+          action.setLoop(THREE.LoopOnce, 1);
+          action.clampWhenFinished = true; // hold final pose
+          typingActionRef.current = action;
+          break;
+        case "talking":
+          action.setLoop(THREE.LoopRepeat, Infinity);
+          talkingActionsRef.current = [...talkingActionsRef.current, action];
+          break;
       }
+    };
 
-      // If we have multiple idle actions, advance to the next when one finishes
-      let idleSeqIndex = 0;
-      const onIdleFinished = (e: any) => {
-        if (idleActions.length <= 1) return;
-        const finished = e.action as THREE.AnimationAction;
-        if (finished !== idleActions[idleSeqIndex]) return;
-        try { finished.fadeOut(0.2); } catch (err) {}
-        idleSeqIndex = (idleSeqIndex + 1) % idleActions.length;
-        const next = idleActions[idleSeqIndex];
-        next.reset().fadeIn(0.2).play();
-        idleActionRef.current = next;
-      };
-      if (idleActions.length > 1) {
-        mixerRef.current!.addEventListener("finished", onIdleFinished);
-        // store cleanup so unmount can remove the listener
-        (renderer as any)._idleSeqCleanup = () => {
-          try { mixerRef.current!.removeEventListener("finished", onIdleFinished); } catch (e) {}
-        };
+    // Take the current character off stage: stop its actions, drop every ref
+    // bound to it and release its assets. Renderer, camera and background stay.
+    const unloadCharacter = () => {
+      const mixer = mixerRef.current;
+      try { layersRef.current?.stopGestures(); } catch (e) {}
+      if (mixer) {
+        mixer.stopAllAction();
+        if (bodyMeshRef.current) mixer.uncacheRoot(bodyMeshRef.current);
       }
+      clearTypingHoldTimeout();
+      mixerRef.current = null;
+      layersRef.current = null;
+      idleActionRef.current = null;
+      idleActionsRef.current = [];
+      introActionRef.current = null;
+      interruptActionRef.current = null;
+      typingActionRef.current = null;
+      talkingActionsRef.current = [];
+      currentlyPlayingTalkingActionRef.current = null;
+      followAnchorRef.current = null;
+      typingHeadQuatRef.current = null;
+      typingNeckQuatRef.current = null;
+      faceMeshRef.current = null;
+      boundVisemeProfileRef.current = null;
+      bodyMeshRef.current = null;
+      modelRootRef.current = null;
+      targetRigRef.current = null;
+      characterResourcesRef.current?.dispose();
+      characterResourcesRef.current = null;
+    };
 
-      // Build a playlist for occasional one-shot idles (exclude the base idle)
-      const playlist: THREE.AnimationAction[] = [];
-      if (interruptAction) playlist.push(interruptAction);
-      if (ambientAction) playlist.push(ambientAction);
-      loopActionsRef.current = playlist;
-      // Disable auto-looping of playlist to prevent unexpected interrupts
-      loopEnabledRef.current = false;
-
-      const playNextLoopAction = () => {
-        if (!loopEnabledRef.current || playlist.length === 0) return;
-        if (animationStateRef.current === "talking") return;
-        const prev = currentLoopActionRef.current;
-        if (prev?.isRunning()) prev.fadeOut(0.4);
-        currentLoopIndexRef.current = (currentLoopIndexRef.current + 1) % playlist.length;
-        const next = playlist[currentLoopIndexRef.current];
-        if (next) {
-          next.reset().setEffectiveWeight(1).fadeIn(0.4).play();
-          currentLoopActionRef.current = next;
-          animationStateRef.current = "idle";
+    // Fade a freshly added model in, then make its materials opaque again so
+    // they sort and shadow like before
+    // Materials of `root` that render opaque, to switch back once a fade is over
+    const opaqueMaterials = (root: THREE.Object3D) => {
+      const opaque: any[] = [];
+      root.traverse((child: any) => {
+        if (!child.isMesh) return;
+        for (const m of Array.isArray(child.material) ? child.material : [child.material]) {
+          if (m && !m.transparent) opaque.push(m);
         }
-      };
-
-      // Do not auto-start playlist; base idle is already playing
+      });
+      return opaque;
+    };
 
-      mixerRef.current.addEventListener("finished", (e: any) => {
-        const finished = e.action as THREE.AnimationAction;
-        if (finished === introAction) {
-          playNextLoopAction();
-          return;
+    // Show a model that a fade left (partly) transparent at full opacity again
+    const restoreModelOpacity = (root: THREE.Object3D, opaque: any[] = []) => {
+      let faded = false;
+      root.traverse((child: any) => {
+        if (!child.isMesh) return;
+        for (const m of Array.isArray(child.material) ? child.material : [child.material]) {
+          if (m && typeof m.opacity === "number" && m.opacity < 1) faded = true;
         }
-        // Do not auto-advance playlist; remain on base idle unless explicitly triggered
-        return;
+      });
+      if (faded) void fadeObjectOpacity(root, 1, 0);
+      opaque.forEach((m) => {
+        m.transparent = false;
+        m.needsUpdate = true;
       });
     };
 
+    const fadeInModel = async (root: THREE.Object3D) => {
+      const opaque = opaqueMaterials(root);
+      await fadeObjectOpacity(root, 0, 0);
+      await fadeObjectOpacity(root, 1, SWAP_FADE);
+      if (modelRootRef.current !== root) return;
+      opaque.forEach((m) => {
+        m.transparent = false;
+        m.needsUpdate = true;
+      });
+    };
+
+    // Scene, camera, renderer and render loop: created once and kept across character swaps
     useEffect(() => {
       if (!mountRef.current) return;
       const currentMount = mountRef.current;
   const scene = new THREE.Scene();
-      const selectedBackground: BackgroundData =
-        backgroundData || backgrounds[backgroundPreset] || backgrounds.studio;
-  const textureLoader = new THREE.TextureLoader();
-  // Create ground only for non-studio backgrounds
-  let ground: THREE.Mesh | null = null;
-      switch (selectedBackground.name) {
-        case "Forest":
-          textureLoader.load("/textures/forest/forestbg.jpg", (texture) => {
-            texture.mapping = THREE.EquirectangularReflectionMapping;
-            scene.background = texture;
-            scene.environment = texture;
-          });
-          const forestFloorTexture = textureLoader.load(
-            "/textures/forest/Grass.jpg"
-          );
-          forestFloorTexture.wrapS = THREE.RepeatWrapping;
-          forestFloorTexture.wrapT = THREE.RepeatWrapping;
-          forestFloorTexture.repeat.set(25, 25);
-          ground = new THREE.Mesh(
-            new THREE.PlaneGeometry(100, 100),
-            new THREE.MeshStandardMaterial({ map: forestFloorTexture })
-          );
-          break;
-        case "City at Night":
-          textureLoader.load("/textures/city/cyberbg.jpg", (texture) => {
-            texture.mapping = THREE.EquirectangularReflectionMapping;
-            scene.background = texture;
-            scene.environment = texture;
-          });
-          const cityFloorTexture = textureLoader.load(
-            "/textures/city/floormetal.jpg"
-          );
-          cityFloorTexture.wrapS = THREE.RepeatWrapping;
-          cityFloorTexture.wrapT = THREE.RepeatWrapping;
-          cityFloorTexture.repeat.set(25, 25);
-          ground = new THREE.Mesh(
-            new THREE.PlaneGeometry(100, 100),
-            new THREE.MeshStandardMaterial({ map: cityFloorTexture })
-          );
-          break;
-        case "Venice Sunset HDR":
-        case "Royal Esplanade HDR":
-          if (selectedBackground.url) {
-            new RGBELoader().load(selectedBackground.url, (texture) => {
-              texture.mapping = THREE.EquirectangularReflectionMapping;
-              scene.background = texture;
-              scene.environment = texture;
-            });
-          }
-          ground = new THREE.Mesh(
-            new THREE.PlaneGeometry(100, 100),
-            new THREE.MeshPhongMaterial({ color: 0xbbbbbb, depthWrite: false })
-          );
-          break;
-        case "Studio":
-          // Keep the WebGL canvas fully transparent so the page CSS gradient shows through.
-          // No ground plane for studio to match the reference design.
-          ground = null;
-          break;
-        default:
-          scene.background = new THREE.Color(selectedBackground.color || 0xa0a0a0);
-          ground = new THREE.Mesh(
-            new THREE.PlaneGeometry(100, 100),
-            new THREE.MeshPhongMaterial({ color: 0xbbbbbb, depthWrite: false })
-          );
-          break;
-      }
-      if (ground) {
-        ground.rotation.x = -Math.PI / 2;
-        ground.receiveShadow = true;
-        scene.add(ground);
-      }
       const safeAspect = currentMount.clientHeight
         ? currentMount.clientWidth / currentMount.clientHeight
         : 1;
@@ -1531,11 +1786,28 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
   lastGoodCameraPosRef.current.copy(camera.position);
   lastGoodCameraQuatRef.current.copy(camera.quaternion);
   setCameraPosition({x: camera.position.x, y: camera.position.y, z: camera.position.z});
+      // Everything below lives as long as the canvas; freed together on unmount
+      const resources = new ResourceTracker();
       const audioListener = new THREE.AudioListener();
       camera.add(audioListener);
       audioRef.current = new THREE.Audio(audioListener);
+      resources.track(() => {
+        camera.remove(audioListener);
+        audioRef.current = null;
+        // The speech graph hangs off our own AudioContext; closing it frees the
+        // decoded buffers and the analyser with it
+        const audioCtx = audioContextRef.current;
+        audioContextRef.current = null;
+        speechBusRef.current = null;
+        analyserLipSyncRef.current = null;
+        if (audioCtx && audioCtx.state !== "closed") void audioCtx.close().catch(() => {});
+      });
   // alpha:true + transparent clear color prevents any white flash and lets CSS background show through.
   const renderer = new THREE.WebGLRenderer({ antialias: true, alpha: true });
+      resources.track(() => {
+        renderer.dispose();
+        renderer.forceContextLoss();
+      });
       renderer.setSize(currentMount.clientWidth, currentMount.clientHeight);
       renderer.setPixelRatio(window.devicePixelRatio);
       renderer.shadowMap.enabled = true;
@@ -1547,14 +1819,18 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
       dirLight.position.set(3, 10, 10);
       dirLight.castShadow = true;
       scene.add(dirLight);
+      resources.track(hemiLight);
+      resources.track(dirLight);
   const controls = new OrbitControls(camera, renderer.domElement);
+      resources.track(controls);
   // Align control target Y with camera Y so initial view height matches camera position
   controls.target.set(0, camera.position.y, 0);
       controls.enableDamping = true;
       controls.dampingFactor = 0.08;
       controls.update();
 
-      // Expose camera/controls to other helpers
+      // Expose scene/camera/controls to other helpers
+      sceneRef.current = scene;
       cameraRef.current = camera;
       controlsRef.current = controls;
 
@@ -1566,6 +1842,11 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
         const delta = clock.getDelta();
         try { mixerRef.current?.update(delta); } catch (e) {}
 
+        // Viseme profile switched at runtime: rebind to the mesh the new profile drives
+        if (modelRootRef.current && boundVisemeProfileRef.current !== visemeProfileRef.current) {
+          bindFaceMesh(modelRootRef.current);
+        }
+
         // Facial morphs: blink, visemes, and emotion
         const faceMesh: any = faceMeshRef.current;
         if (faceMesh && faceMesh.morphTargetDictionary && faceMesh.morphTargetInfluences) {
@@ -1595,60 +1876,77 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
             if (hasMorph(faceMesh, 'eyeBlinkRight')) setMorphLerp(faceMesh, 'eyeBlinkRight', 0, lerpA);
           }
 
-          // 2) Lip-sync visemes + jaw from schedule
+          // 2) Lip-sync visemes + jaw, from the cue schedule or (without cues) the analyser
           try {
             const audioCtx = audioContextRef.current;
-            const visemes: { time: number; value: string; jaw?: number }[] = faceMesh.userData?.visemes || [];
+            const visemes: VisemeCue[] = faceMesh.userData?.visemes || [];
             const start: number | undefined = faceMesh.userData?.audioStartTime;
-            if (audioCtx && start !== undefined && Array.isArray(visemes) && visemes.length > 0) {
-              const t = audioCtx.currentTime - start; // seconds offset
-              // find current viseme (last whose time <= t)
-              let idx = 0;
-              for (let i = currentVisemeIndexRef.current; i < visemes.length; i++) {
-                if (visemes[i].time <= t) idx = i; else break;
-              }
-              currentVisemeIndexRef.current = idx;
-              const cur = visemes[idx];
-              if (cur) {
-                // fade all viseme_* to 0
-                const dict = faceMesh.morphTargetDictionary as Record<string, number>;
-                for (const key in dict) {
-                  if (key.startsWith('viseme_')) setMorphLerp(faceMesh, key, 0, lerpA);
-                }
-                // choose morph name: prefer viseme_<value>, else value directly
-                const candA = `viseme_${cur.value}`;
-                const candB = cur.value;
-                const activeName = hasMorph(faceMesh, candA) ? candA : (hasMorph(faceMesh, candB) ? candB : null);
-                if (activeName) setMorphLerp(faceMesh, activeName, 1, lerpA);
-                // jaw/mouth open
-                const jawV = THREE.MathUtils.clamp((cur.jaw ?? 0), 0, 1);
-                if (hasMorph(faceMesh, 'jawOpen')) setMorphLerp(faceMesh, 'jawOpen', jawV, lerpA);
-                else if (hasMorph(faceMesh, 'mouthOpen')) setMorphLerp(faceMesh, 'mouthOpen', jawV, lerpA);
-              }
-            } else {
-              // no active speech: relax visemes and jaw
-              const dict = faceMesh.morphTargetDictionary as Record<string, number>;
-              for (const key in dict) {
-                if (key.startsWith('viseme_')) setMorphLerp(faceMesh, key, 0, lerpA);
-              }
-              if (hasMorph(faceMesh, 'jawOpen')) setMorphLerp(faceMesh, 'jawOpen', 0, lerpA);
-              else if (hasMorph(faceMesh, 'mouthOpen')) setMorphLerp(faceMesh, 'mouthOpen', 0, lerpA);
+            const utt = utteranceRef.current;
+            let pose: MouthPose | null = null;
+            const t = audioCtx && start !== undefined ? audioCtx.currentTime - start : null; // seconds offset
+            const fromSchedule =
+              t !== null && Array.isArray(visemes) && visemes.length > 0 && utt?.lipSync !== "analyser";
+            if (fromSchedule) {
+              // blend neighbouring cues around the playhead (coarticulation)
+              pose = visemeSchedulerRef.current.evaluate(visemes, t);
+            } else if (
+              utt &&
+              utt.lipSync !== "visemes" &&
+              utt.segments.length > 0 &&
+              !isWaitingAfterTalkRef.current &&
+              analyserLipSyncRef.current
+            ) {
+              const frame = analyserLipSyncRef.current.sample(delta);
+              pose = { weights: { [frame.viseme]: 1 }, jaw: frame.jaw };
             }
+
+            // The scheduler already shapes attack/release, so follow it closely;
+            // the analyser pose is a raw per-frame estimate and keeps the normal lerp.
+            const mouthA = fromSchedule ? Math.min(1, delta * 30) : lerpA;
+            // Map canonical visemes onto this rig's morphs through its profile
+            const profile = visemeProfileRef.current;
+            const targets = pose ? resolveMorphWeights(profile, pose.weights) : {};
+            for (const morph of profileMorphs(profile)) {
+              if (hasMorph(faceMesh, morph)) setMorphLerp(faceMesh, morph, targets[morph] || 0, mouthA);
+            }
+            // jaw/mouth open; relaxes to closed when there is no active speech
+            const jawV = THREE.MathUtils.clamp(pose?.jaw ?? 0, 0, 1);
+            const jaw = profile.jaw.find((j) => hasMorph(faceMesh, j.morph));
+            if (jaw) setMorphLerp(faceMesh, jaw.morph, jawV * jaw.weight, mouthA);
           } catch (e) { /* ignore viseme errors */ }
 
           // 3) Emotion morphs
           try {
-            const emo = emotions[currentSpeechEmotionRef.current] || {};
-            const intensity = THREE.MathUtils.clamp(speechEmotionIntensityRef.current || 1, 0, 1);
+            const emo = emotionWeights(currentSpeechEmotionRef.current);
             for (const k of Object.keys(emo)) {
-              const target = emo[k] * intensity;
-              if (hasMorph(faceMesh, k)) setMorphLerp(faceMesh, k, target, lerpA);
+              if (hasMorph(faceMesh, k)) setMorphLerp(faceMesh, k, emo[k], lerpA);
+            }
+            // Ease the previous emotion's morphs out over its fade window
+            const fading = fadingEmotionRef.current;
+            if (fading) {
+              const p = (now - fading.start) / (fading.duration * 1000);
+              const scale = 1 - THREE.MathUtils.smoothstep(p, 0, 1);
+              const prev = emotionWeights(fading.emotion);
+              for (const k of Object.keys(prev)) {
+                if (k in emo || !hasMorph(faceMesh, k)) continue;
+                setMorphLerp(faceMesh, k, prev[k] * scale, lerpA);
+              }
+              // keep relaxing briefly past the window so the lerp settles at zero
+              if (p > 1.5) fadingEmotionRef.current = null;
             }
           } catch (e) { /* ignore emotion errors */ }
+
+          // 4) Face layer: morph tracks carried by gesture clips blend over the above
+          try {
+            const faceLayer = layersRef.current?.sampleFace() || {};
+            for (const [k, { value, blend }] of Object.entries(faceLayer)) {
+              if (hasMorph(faceMesh, k)) setMorphLerp(faceMesh, k, value, blend);
+            }
+          } catch (e) { /* ignore face layer errors */ }
         }
 
         // Follow anchor (used during BVH play)
-        if (isFollowingRef.current && followAnchorRef.current) {
+        if (animationMachineRef.current.is("bvh") && followAnchorRef.current) {
           try {
             const anchor = followAnchorRef.current;
             anchor.updateMatrixWorld?.(true);
@@ -1687,70 +1985,335 @@ const ThreeCanvas = forwardRef<ThreeCanvasHandles, ThreeCanvasProps>(
       };
       window.addEventListener('resize', onResize);
 
-      // The simplified renderer/effect that loaded the model once has been removed
-      // in favor of the consolidated effect further down in this file which
-      // supports multi-idle sequencing, typing, gestures and full lifecycle.
-      // Removing the duplicate prevents appending a second canvas and avoids
-      // conflicting loaders that resulted in the model not being visible.
-
-      // Start loading all assets and handle them when ready
-            const promises: Promise<any>[] = [];
-      
-            // Character model (GLTF)
-            promises.push(loadGLTFCached(characterModelUrl));
-      
-            // Idle animations (single string or array)
-            const idleUrls = Array.isArray(idleAnimationUrl) ? idleAnimationUrl : [idleAnimationUrl];
-                       for (const u of idleUrls) {
-              if (u) promises.push(loadFBXCached(u));
-            }
-      
-            // Optional animations
-            if (introAnimationUrl) promises.push(loadFBXCached(introAnimationUrl));
-            if (interruptAnimationUrl) promises.push(loadFBXCached(interruptAnimationUrl));
-            if (talkingAnimationUrl1) promises.push(loadFBXCached(talkingAnimationUrl1));
-            if (talkingAnimationUrl2) promises.push(loadFBXCached(talkingAnimationUrl2));
-      
-            // Typing animation (use provided or fallback)
-            const typingUrl = typingAnimationUrl || "/idleanimations/waiting.fbx";
-            promises.push(loadFBXCached(typingUrl));
-      
-            Promise.all(promises)
-              .then((assets) => {
-                try {
-                  handleAssetsLoaded(assets, scene, camera, controls, renderer);
-                } catch (err) {
-                  console.error("ThreeCanvas: error handling loaded assets:", err);
-                }
-              })
-              .catch((err) => {
-                console.error("ThreeCanvas: failed to load assets:", err);
-              });
-
       // end of effect body: cleanup and return
-      // Cleanup will stop audio, remove the renderer DOM element, and invoke any idle-seq cleanup.
+      // Cleanup will stop audio, unload the character, free the scene's resources
+      // and remove the renderer DOM element.
       return () => {
         try { if (audioRef.current && audioRef.current.isPlaying) audioRef.current.stop(); } catch (e) {}
-        try { if (audioSourceRef.current) { audioSourceRef.current.onended = null; audioSourceRef.current.stop?.(); audioSourceRef.current.disconnect?.(); audioSourceRef.current = null; } } catch (e) {}
+        try { clearSpeechQueue(); stopActiveUtterance(null); } catch (e) {}
+        try { unloadCharacter(); } catch (e) {}
+        sceneRef.current = null;
         try { window.removeEventListener('resize', onResize); } catch (e) {}
         try { if (rafId) cancelAnimationFrame(rafId); } catch (e) {}
-        try { controls.dispose?.(); } catch (e) {}
-        try { renderer.dispose?.(); } catch (e) {}
+        resources.dispose();
         try {
           if (mountRef.current && renderer.domElement) {
             currentMount.removeChild(renderer.domElement);
           }
         } catch (e) {}
-        try { (renderer as any)._idleSeqCleanup?.(); } catch (e) {}
       };
     }, [
       // Run once on mount to avoid reloading on every keystroke/prop change.
     ]);
 
-    // Render mount point for the WebGL canvas
-    return <div ref={mountRef} style={{ width: "100%", height: "100%" }} />;
+    // Environment: sky, image-based lighting and ground, rebuilt whenever the
+    // descriptor changes. Loads that finish after a newer switch are dropped.
+    const background = backgroundData || findBackground(backgroundPreset) || DEFAULT_BACKGROUND;
+    const backgroundKey = JSON.stringify(background);
+    useEffect(() => {
+      const scene = sceneRef.current;
+      if (!scene) return;
+      let cancelled = false;
+      const resources = new ResourceTracker();
+
+      scene.background = background.color !== null ? new THREE.Color(background.color) : null;
+      scene.environment = null;
+
+      const sky = background.sky;
+      if (sky) {
+        const loader =
+          sky.format === "hdr" ? new RGBELoader() : sky.format === "exr" ? new EXRLoader() : new THREE.TextureLoader();
+        loader
+          .loadAsync(sky.url)
+          .then((texture: THREE.Texture) => {
+            // Disposed right away when the background was switched meanwhile
+            resources.track(texture);
+            if (cancelled) return;
+            texture.mapping = THREE.EquirectangularReflectionMapping;
+            if (sky.format === "ldr") texture.colorSpace = THREE.SRGBColorSpace;
+            scene.background = texture;
+            if (background.environment) scene.environment = texture;
+          })
+          .catch((err: unknown) => console.error(`ThreeCanvas: failed to load background "${background.name}":`, err));
+      }
+
+      if (background.ground) {
+        const { texture: floorUrl, repeat = 1, color = 0xbbbbbb } = background.ground;
+        const geometry = new THREE.PlaneGeometry(100, 100);
+        let material: THREE.Material;
+        if (floorUrl) {
+          const floor = new THREE.TextureLoader().load(floorUrl);
+          floor.wrapS = THREE.RepeatWrapping;
+          floor.wrapT = THREE.RepeatWrapping;
+          floor.repeat.set(repeat, repeat);
+          floor.colorSpace = THREE.SRGBColorSpace;
+          material = new THREE.MeshStandardMaterial({ map: floor });
+        } else {
+          material = new THREE.MeshPhongMaterial({ color, depthWrite: false });
+        }
+        const ground = resources.trackObject(new THREE.Mesh(geometry, material));
+        ground.rotation.x = -Math.PI / 2;
+        ground.receiveShadow = true;
+        scene.add(ground);
+      }
+
+      return () => {
+        cancelled = true;
+        scene.background = null;
+        scene.environment = null;
+        resources.dispose();
+      };
+      // backgroundKey stands in for the descriptor, which callers may rebuild every render
+    }, [backgroundKey]);
+
+    // Character assets: (re)loaded whenever the model or any of its clips change.
+    // The model and the first idle that loads are needed to show the character;
+    // everything else streams in afterwards and is attached as it arrives. A clip
+    // that fails is reported and skipped (typing falls back to a stock clip); only
+    // a failed model keeps the character off stage. The previous character keeps
+    // idling until the new one is ready, then fades out and is disposed while the
+    // new one fades in.
+    const idleKey = Array.isArray(idleAnimationUrl) ? idleAnimationUrl.join("|") : idleAnimationUrl;
+    useEffect(() => {
+      const scene = sceneRef.current;
+      if (!scene) return;
+      let cancelled = false;
+      // Handed to characterResourcesRef once this character is on stage
+      const resources = new ResourceTracker();
+      const onStage = () => !cancelled && characterResourcesRef.current === resources;
+
+      const reportFailure = (kind: AssetKind, url: string, error: unknown, fatal = false) => {
+        console.error(`ThreeCanvas: failed to load ${kind} ${url}:`, error);
+        loadEventsRef.current.onLoadError?.({ kind, url, error, fatal });
+      };
+
+      // Overlay progress covers the files the character waits for: each counts
+      // as one item, done once it settles (at once when cached), and a download
+      // in flight counts by the share of its bytes received so far.
+      // This stands in for a THREE.LoadingManager on purpose: a manager only
+      // counts items (no bytes), and one shared by the loaders would never hear
+      // of AssetCache hits (no load runs) while counting background clips and
+      // other characters' loads too. The per-file onProgress listeners give the
+      // bytes, and waitFor scopes the count to this character's own files.
+      const files = new Map<string, { loaded: number; total: number; done: boolean }>();
+      const showProgress = () => {
+        if (cancelled || files.size === 0) return;
+        let done = 0;
+        files.forEach((f) => {
+          done += f.done ? 1 : f.total ? Math.min(f.loaded / f.total, 1) : 0;
+        });
+        setLoadStatus({ progress: done / files.size });
+      };
+      const waitFor = async <T,>(url: string, load: (onProgress: ProgressListener) => Promise<T>) => {
+        const file = { loaded: 0, total: 0, done: false };
+        files.set(url, file);
+        showProgress();
+        try {
+          return await load((event) => {
+            file.loaded = event.loaded;
+            file.total = event.lengthComputable ? event.total : 0;
+            showProgress();
+          });
+        } finally {
+          file.done = true;
+          showProgress();
+        }
+      };
+
+      // Idle clips that already failed while picking the first one are not retried
+      const failedIdles = new Set<string>();
+
+      const idleUrls = (Array.isArray(idleAnimationUrl) ? idleAnimationUrl : [idleAnimationUrl]).filter(Boolean);
+      // The first idle that loads goes on stage with the model; the stock idle
+      // stands in when none of the character's own do
+      const loadFirstIdle = async () => {
+        const candidates = idleUrls.includes(FALLBACK_IDLE_URL) ? idleUrls : [...idleUrls, FALLBACK_IDLE_URL];
+        for (const url of candidates) {
+          try {
+            return { url, clip: await waitFor(url, (onProgress) => loadAnimationClip(url, resources, onProgress)) };
+          } catch (err) {
+            failedIdles.add(url);
+            if (!cancelled) reportFailure("idle", url, err);
+          }
+        }
+        return null;
+      };
+
+      // Load a clip in the background; null when it failed (already reported)
+      const loadClip = async (kind: AssetKind, url: string) => {
+        try {
+          return await loadAnimationClip(url, resources);
+        } catch (err) {
+          if (!cancelled) reportFailure(kind, url, err);
+          return null;
+        }
+      };
+
+      const loadRest = async (firstIdleUrl: string) => {
+        const attachWhenLoaded = async (kind: Exclude<AssetKind, "model">, url: string | undefined) => {
+          if (!url) return;
+          const clip = await loadClip(kind, url);
+          if (clip && onStage()) attachClip(kind, clip);
+        };
+        // Parallel downloads, but idles and talking clips keep their listed order
+        const idles = idleUrls
+          .filter((url) => url !== firstIdleUrl && !failedIdles.has(url))
+          .map((url) => loadClip("idle", url));
+        // The same file in both slots would leave the talking state nothing to alternate with
+        const talking = Array.from(new Set([talkingAnimationUrl1, talkingAnimationUrl2]))
+          .filter((url): url is string => !!url)
+          .map((url) => loadClip("talking", url));
+        const typing = (async () => {
+          if (typingAnimationUrl) {
+            const clip = await loadClip("typing", typingAnimationUrl);
+            if (clip) return clip;
+          }
+          return loadClip("typing", FALLBACK_TYPING_URL);
+        })();
+        await Promise.all([
+          attachWhenLoaded("intro", introAnimationUrl),
+          attachWhenLoaded("interrupt", interruptAnimationUrl),
+          (async () => {
+            for (const idle of idles) {
+              const clip = await idle;
+              if (clip && onStage()) attachClip("idle", clip);
+            }
+          })(),
+          (async () => {
+            for (const clip of talking) {
+              const loaded = await clip;
+              if (loaded && onStage()) attachClip("talking", loaded);
+            }
+          })(),
+          typing.then((clip) => {
+            if (clip && onStage()) attachClip("typing", clip);
+          }),
+        ]);
+      };
+
+      // A failure notice stays up for a while, then the overlay goes away: whoever
+      // was on stage is still there (or the stage is empty either way)
+      const showError = (error: string) => {
+        setLoadStatus({ progress: null, error });
+        const timer = window.setTimeout(() => {
+          if (!cancelled) setLoadStatus(null);
+        }, LOAD_ERROR_DISMISS_MS);
+        resources.track(() => window.clearTimeout(timer));
+      };
+
+      setLoadStatus({ progress: null });
+      (async () => {
+        const modelPromise = waitFor(characterModelUrl, (onProgress) =>
+          resources.use(gltfCache, characterModelUrl, onProgress)
+        );
+        const [model, firstIdle] = await Promise.all([
+          modelPromise.catch((err) => {
+            if (!cancelled) reportFailure("model", characterModelUrl, err, true);
+            return null;
+          }),
+          loadFirstIdle(),
+        ]);
+        if (cancelled) return;
+        if (!model) {
+          // Whoever was on stage stays there, fully visible even if an abandoned
+          // swap was fading it out
+          if (modelRootRef.current) restoreModelOpacity(modelRootRef.current);
+          showError("Could not load this character.");
+          return;
+        }
+        const previous = modelRootRef.current;
+        if (previous) {
+          // Speech belongs to the character leaving the stage
+          clearSpeechQueue();
+          stopActiveUtterance("cancelled");
+          const opaque = opaqueMaterials(previous);
+          await fadeObjectOpacity(previous, 0, SWAP_FADE);
+          if (cancelled) {
+            // Another persona was picked meanwhile: the previous character stays
+            // on stage until that one is ready, so it must not stay invisible
+            if (modelRootRef.current === previous) restoreModelOpacity(previous, opaque);
+            return;
+          }
+          unloadCharacter();
+        }
+        animationMachineRef.current = createAnimationMachine();
+        characterResourcesRef.current = resources;
+        try {
+          stageCharacter(model, scene, resources);
+          if (firstIdle) attachClip("idle", firstIdle.clip);
+        } catch (err) {
+          console.error("ThreeCanvas: error staging character:", err);
+          loadEventsRef.current.onLoadError?.({ kind: "model", url: characterModelUrl, error: err, fatal: true });
+          showError("Could not show this character.");
+          return;
+        }
+        setLoadStatus(null);
+        loadEventsRef.current.onReady?.({ characterModelUrl });
+        if (previous && modelRootRef.current) void fadeInModel(modelRootRef.current);
+        await loadRest(firstIdle?.url ?? "");
+      })().catch((err) => {
+        console.error("ThreeCanvas: failed to load character:", err);
+      });
+      return () => {
+        cancelled = true;
+        // Never got on stage: give back what it loaded
+        if (characterResourcesRef.current !== resources) resources.dispose();
+      };
+    }, [
+      characterModelUrl,
+      idleKey,
+      introAnimationUrl,
+      interruptAnimationUrl,
+      talkingAnimationUrl1,
+      talkingAnimationUrl2,
+      typingAnimationUrl,
+    ]);
+
+    // Render mount point for the WebGL canvas, with the loading overlay above it
+    return (
+      <div style={{ position: "relative", width: "100%", height: "100%" }}>
+        <div ref={mountRef} style={{ width: "100%", height: "100%" }} />
+        {loadStatus && (
+          <div
+            role="status"
+            style={{
+              position: "absolute",
+              left: "50%",
+              bottom: 24,
+              transform: "translateX(-50%)",
+              minWidth: 200,
+              padding: "8px 14px",
+              borderRadius: 8,
+              background: "rgba(0, 0, 0, 0.6)",
+              color: "#fff",
+              font: "13px sans-serif",
+              textAlign: "center",
+              pointerEvents: "none",
+            }}
+          >
+            {loadStatus.error ? (
+              loadStatus.error
+            ) : (
+              <>
+                Loading character…{loadStatus.progress !== null && ` ${Math.round(loadStatus.progress * 100)}%`}
+                <div style={{ marginTop: 6, height: 4, borderRadius: 2, background: "rgba(255, 255, 255, 0.25)" }}>
+                  <div
+                    style={{
+                      width: `${Math.round((loadStatus.progress ?? 0) * 100)}%`,
+                      height: "100%",
+                      borderRadius: 2,
+                      background: "#fff",
+                      transition: "width 0.2s",
+                    }}
+                  />
+                </div>
+              </>
+            )}
+          </div>
+        )}
+      </div>
+    );
   }
 );
 
 export default ThreeCanvas;
-
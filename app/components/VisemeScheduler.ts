@@ -0,0 +1,130 @@
+// Coarticulated viseme blending for the lip-sync timeline.
+// Instead of snapping to the single active cue, every cue near the playhead gets
+// an activation curve (anticipated onset, attack, hold, release) and overlapping
+// cues are blended by dominance, so lips and jaw move continuously while strong
+// consonant closures (PP, FF) still win over the vowels around them.
+
+import type { VisemeCue } from "./ThreeCanvas";
+
+export interface VisemeShape {
+  // Seconds to reach full activation
+  attack: number;
+  // Seconds to fall back to zero after the cue ends
+  release: number;
+  // Relative pull when overlapping neighbours (Cohen-Massaro style dominance)
+  dominance: number;
+  // Cues shorter than this are held open long enough to be visible
+  minHold?: number;
+}
+
+export const VISEME_SHAPES: Record<string, VisemeShape> = {
+  sil: { attack: 0.1, release: 0.1, dominance: 0.5 },
+  PP: { attack: 0.04, release: 0.06, dominance: 3.0, minHold: 0.05 },
+  FF: { attack: 0.05, release: 0.07, dominance: 2.5, minHold: 0.05 },
+  TH: { attack: 0.06, release: 0.08, dominance: 1.6 },
+  DD: { attack: 0.05, release: 0.08, dominance: 1.0 },
+  kk: { attack: 0.06, release: 0.08, dominance: 0.8 },
+  CH: { attack: 0.06, release: 0.09, dominance: 1.4 },
+  SS: { attack: 0.05, release: 0.08, dominance: 1.3 },
+  nn: { attack: 0.06, release: 0.08, dominance: 0.8 },
+  RR: { attack: 0.07, release: 0.1, dominance: 1.0 },
+  aa: { attack: 0.09, release: 0.12, dominance: 1.0 },
+  E: { attack: 0.08, release: 0.11, dominance: 1.0 },
+  I: { attack: 0.08, release: 0.11, dominance: 1.0 },
+  O: { attack: 0.09, release: 0.13, dominance: 1.2 },
+  U: { attack: 0.09, release: 0.13, dominance: 1.3 },
+};
+
+const DEFAULT_SHAPE: VisemeShape = { attack: 0.08, release: 0.1, dominance: 1.0 };
+
+export interface VisemeSchedulerOptions {
+  // How far ahead of its timestamp a cue starts shaping the mouth (seconds)
+  anticipation?: number;
+  // Nominal length of the final cue, which has no successor to end it
+  lastCueDuration?: number;
+  shapes?: Record<string, VisemeShape>;
+}
+
+export interface MouthPose {
+  // Blend weight per viseme name as it appears in the timeline
+  weights: Record<string, number>;
+  jaw: number;
+}
+
+const smoothstep = (x: number) => {
+  const t = Math.min(1, Math.max(0, x));
+  return t * t * (3 - 2 * t);
+};
+
+// Timeline values may be "viseme_aa" or bare "aa"
+const shapeKey = (value: string) => value.replace(/^viseme_/, "");
+
+export class VisemeScheduler {
+  private anticipation: number;
+  private lastCueDuration: number;
+  private shapes: Record<string, VisemeShape>;
+  // Cached search position; playback only moves forward between resets
+  private cursor = 0;
+
+  constructor(options: VisemeSchedulerOptions = {}) {
+    this.anticipation = options.anticipation ?? 0.06;
+    this.lastCueDuration = options.lastCueDuration ?? 0.15;
+    this.shapes = { ...VISEME_SHAPES, ...options.shapes };
+  }
+
+  reset() {
+    this.cursor = 0;
+  }
+
+  private shapeOf(value: string) {
+    return this.shapes[shapeKey(value)] || DEFAULT_SHAPE;
+  }
+
+  /** Activation (0..1) of cue `i` at time `t`. */
+  private activation(timeline: VisemeCue[], i: number, t: number) {
+    const cue = timeline[i];
+    const shape = this.shapeOf(cue.value);
+    const start = cue.time - this.anticipation;
+    const nominalEnd = i + 1 < timeline.length ? timeline[i + 1].time : cue.time + this.lastCueDuration;
+    const end = Math.max(nominalEnd, cue.time + (shape.minHold ?? 0));
+    if (t < start || t > end + shape.release) return 0;
+    const rise = smoothstep((t - start) / shape.attack);
+    const fall = t > end ? 1 - smoothstep((t - end) / shape.release) : 1;
+    return Math.min(rise, fall);
+  }
+
+  /** Blend the cues around time `t` (seconds since audio start) into a mouth pose. */
+  evaluate(timeline: VisemeCue[], t: number): MouthPose {
+    const pose: MouthPose = { weights: {}, jaw: 0 };
+    if (timeline.length === 0) return pose;
+
+    // Index of the last cue starting at or before t + anticipation
+    const horizon = t + this.anticipation;
+    if (this.cursor >= timeline.length || timeline[this.cursor].time > horizon) this.cursor = 0;
+    while (this.cursor + 1 < timeline.length && timeline[this.cursor + 1].time <= horizon) this.cursor++;
+
+    // Neighbours whose attack or release can still overlap t
+    const from = Math.max(0, this.cursor - 3);
+    const to = Math.min(timeline.length - 1, this.cursor + 2);
+
+    let dominanceSum = 0;
+    let envelope = 0;
+    const contributions: Array<{ cue: VisemeCue; d: number }> = [];
+    for (let i = from; i <= to; i++) {
+      const a = this.activation(timeline, i, t);
+      if (a <= 0) continue;
+      const d = a * this.shapeOf(timeline[i].value).dominance;
+      contributions.push({ cue: timeline[i], d });
+      dominanceSum += d;
+      envelope = Math.max(envelope, a);
+    }
+    if (dominanceSum <= 0) return pose;
+
+    for (const { cue, d } of contributions) {
+      const share = (d / dominanceSum) * envelope;
+      pose.weights[cue.value] = Math.min(1, (pose.weights[cue.value] || 0) + share);
+      pose.jaw += share * (cue.jaw ?? 0);
+    }
+    return pose;
+  }
+}
@@ -0,0 +1,158 @@
+// Precompiled animation bundles: FBX idle and gesture packs converted ahead of
+// time by scripts/build-animation-bundles.mjs (`npm run build:anims`), so a
+// pack costs one small request instead of a download and FBX parse per clip.
+//
+//   /animations/index.json    { "version": 2, "clips": { "<fbx url>": "<bundle url>" } }
+//   /animations/<pack>.json   { "version": 2, "fps": 30, "clips": [BundledClip, ...] }
+//
+// Clips are already retargeted to the character rig, without root translation.
+// Each keeps the rest pose of its FBX under the renamed bones, so it is aligned
+// to a character's bind pose exactly like a clip parsed from the file.
+// Each track stores its keyframes as frame numbers (Uint16) and its values
+// quantized to 16 bits, both base64 encoded little-endian:
+//
+//   quaternion  Int16, value = q / 32767
+//   vector      Uint16, value = min + q * step
+//
+// Without an index (bundles not built) every lookup misses and callers load the
+// FBX file as before.
+
+import * as THREE from "three";
+import type { RestPose } from "./retargeting";
+
+export const ANIMATION_BUNDLE_VERSION = 2;
+export const ANIMATION_BUNDLE_INDEX_URL = "/animations/index.json";
+
+export interface BundledTrack {
+  name: string;
+  type: "quaternion" | "vector";
+  frames: string;
+  values: string;
+  // Vector tracks only
+  min?: number;
+  step?: number;
+}
+
+export interface BundledClip {
+  // FBX file the clip was compiled from
+  url: string;
+  name: string;
+  duration: number;
+  tracks: BundledTrack[];
+  // Bone -> [px, py, pz, qx, qy, qz, qw], see restPoseOf
+  rest: Record<string, number[]>;
+}
+
+export interface BundledAnimation {
+  clip: THREE.AnimationClip;
+  // Rest pose of the FBX the clip came from
+  rest: RestPose;
+}
+
+export interface AnimationBundle {
+  version: number;
+  fps: number;
+  clips: BundledClip[];
+}
+
+export interface AnimationBundleIndex {
+  version: number;
+  clips: Record<string, string>;
+}
+
+const decodeBase64 = (data: string) => {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+};
+
+const decodeTrack = (track: BundledTrack, fps: number): THREE.KeyframeTrack => {
+  const frames = new Uint16Array(decodeBase64(track.frames));
+  const times = Float32Array.from(frames, (frame) => frame / fps);
+  if (track.type === "quaternion") {
+    const values = Float32Array.from(new Int16Array(decodeBase64(track.values)), (q) => q / 32767);
+    return new THREE.QuaternionKeyframeTrack(track.name, times, values);
+  }
+  const min = track.min ?? 0;
+  const step = track.step ?? 0;
+  const values = Float32Array.from(new Uint16Array(decodeBase64(track.values)), (q) => min + q * step);
+  return new THREE.VectorKeyframeTrack(track.name, times, values);
+};
+
+const decodeRest = (rest: Record<string, number[]>): RestPose =>
+  new Map(
+    Object.entries(rest).map(([bone, v]) => [
+      bone,
+      { position: new THREE.Vector3().fromArray(v), quaternion: new THREE.Quaternion().fromArray(v, 3) },
+    ])
+  );
+
+/** Turn a bundle into clips (with their rest poses) keyed by the FBX url they came from. */
+export const decodeAnimationBundle = (bundle: AnimationBundle) => {
+  if (bundle.version !== ANIMATION_BUNDLE_VERSION) {
+    throw new Error(`Animation bundle version ${bundle.version} is not supported`);
+  }
+  const clips = new Map<string, BundledAnimation>();
+  for (const clip of bundle.clips) {
+    const tracks = clip.tracks.map((track) => decodeTrack(track, bundle.fps));
+    clips.set(clip.url, {
+      clip: new THREE.AnimationClip(clip.name, clip.duration, tracks),
+      rest: decodeRest(clip.rest),
+    });
+  }
+  return clips;
+};
+
+const fetchJson = async <T>(url: string): Promise<T> => {
+  const res = await fetch(url);
+  if (!res.ok) throw new Error(`${url} returned ${res.status}`);
+  return (await res.json()) as T;
+};
+
+let indexPromise: Promise<Map<string, string>> | null = null;
+const bundlePromises = new Map<string, Promise<Map<string, BundledAnimation>>>();
+
+// Missing or unreadable index: no bundles, everything falls back to FBX
+const loadIndex = () => {
+  if (!indexPromise) {
+    indexPromise = fetchJson<AnimationBundleIndex>(ANIMATION_BUNDLE_INDEX_URL)
+      .then((index) => {
+        if (index.version !== ANIMATION_BUNDLE_VERSION) throw new Error(`version ${index.version} is not supported`);
+        return new Map(Object.entries(index.clips));
+      })
+      .catch((err) => {
+        console.info("Animation bundles unavailable, loading FBX clips:", err);
+        return new Map<string, string>();
+      });
+  }
+  return indexPromise;
+};
+
+const loadBundle = (url: string) => {
+  let promise = bundlePromises.get(url);
+  if (!promise) {
+    promise = fetchJson<AnimationBundle>(url).then(decodeAnimationBundle);
+    // A failed bundle is retried on the next lookup
+    promise.catch(() => bundlePromises.delete(url));
+    bundlePromises.set(url, promise);
+  }
+  return promise;
+};
+
+/**
+ * The precompiled clip for an FBX url and its rest pose, or null when no bundle
+ * has it (or its bundle failed to load). Each call returns a copy of the clip
+ * the caller may modify; the rest pose is shared and must not be.
+ */
+export const findBundledClip = async (fbxUrl: string): Promise<BundledAnimation | null> => {
+  const bundleUrl = (await loadIndex()).get(fbxUrl);
+  if (!bundleUrl) return null;
+  try {
+    const bundled = (await loadBundle(bundleUrl)).get(fbxUrl);
+    return bundled ? { clip: bundled.clip.clone(), rest: bundled.rest } : null;
+  } catch (err) {
+    console.warn(`Animation bundle ${bundleUrl} failed, loading ${fbxUrl} instead:`, err);
+    return null;
+  }
+};
@@ -0,0 +1,88 @@
+// User-uploaded background images, kept in the browser's IndexedDB so they
+// survive reloads without leaving the machine.
+//
+//   backgrounds  { id, name, format, blob, createdAt }
+//
+// Like conversationStore.ts, every function rejects when IndexedDB is unavailable.
+
+import { skyFormatOf, type SkyFormat } from "./backgrounds";
+
+export interface StoredBackground {
+  id: string;
+  name: string;
+  format: SkyFormat;
+  blob: Blob;
+  createdAt: number;
+}
+
+const DB_NAME = "companion-backgrounds";
+const DB_VERSION = 1;
+const BACKGROUNDS = "backgrounds";
+
+// Equirectangular HDR/EXR files get large; refuse anything that would not fit comfortably
+export const MAX_BACKGROUND_BYTES = 50 * 1024 * 1024;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(BACKGROUNDS)) {
+          req.result.createObjectStore(BACKGROUNDS, { keyPath: "id" });
+        }
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => reject(new Error("IndexedDB upgrade blocked by another tab"));
+    }).catch((err) => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request in its own transaction and resolve once that commits
+const withStore = async <T>(mode: IDBTransactionMode, work: (store: IDBObjectStore) => IDBRequest<T>) => {
+  const db = await openDb();
+  const tx = db.transaction(BACKGROUNDS, mode);
+  const req = work(tx.objectStore(BACKGROUNDS));
+  await new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+  return req.result;
+};
+
+/** Uploaded backgrounds, oldest first. */
+export const listBackgrounds = async () => {
+  const list = await withStore<StoredBackground[]>("readonly", (store) => store.getAll());
+  return list.sort((a, b) => a.createdAt - b.createdAt);
+};
+
+/** Store an uploaded JPG, HDR or EXR file. Throws when the file type or size is not supported. */
+export const saveBackground = async (file: File) => {
+  const format = skyFormatOf(file.name);
+  if (!format) throw new Error(`"${file.name}" is not a JPG, HDR or EXR image`);
+  if (file.size > MAX_BACKGROUND_BYTES) {
+    throw new Error(`"${file.name}" is larger than ${MAX_BACKGROUND_BYTES / (1024 * 1024)} MB`);
+  }
+  const record: StoredBackground = {
+    id: `user-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name: file.name.replace(/\.[^.]+$/, ""),
+    format,
+    blob: file,
+    createdAt: Date.now(),
+  };
+  await withStore("readwrite", (store) => store.add(record));
+  return record;
+};
+
+export const deleteBackground = (id: string) => withStore("readwrite", (store) => store.delete(id));
@@ -0,0 +1,93 @@
+// Background descriptors: everything ThreeCanvas needs to build an environment,
+// so new backgrounds (built in or uploaded) are data instead of code.
+//
+//   sky          equirectangular image shown behind the character, or null to
+//                keep the canvas transparent (or fill it with `color`)
+//   environment  light the model with the sky image as well
+//   ground       floor plane under the character, or null for none
+
+export type SkyFormat = "ldr" | "hdr" | "exr";
+
+export interface BackgroundDescriptor {
+  id: string;
+  name: string;
+  sky: { url: string; format: SkyFormat } | null;
+  // Solid clear colour used when there is no sky; null leaves the canvas transparent
+  color: number | null;
+  environment: boolean;
+  ground: {
+    // Tiled floor texture; without one the floor is a plain colour
+    texture?: string;
+    repeat?: number;
+    color?: number;
+  } | null;
+  // Uploaded by the user and stored in the browser (backgroundStore.ts)
+  custom?: boolean;
+}
+
+export const BUILTIN_BACKGROUNDS: BackgroundDescriptor[] = [
+  { id: "studio", name: "Studio", sky: null, color: null, environment: false, ground: null },
+  {
+    id: "forest",
+    name: "Forest",
+    sky: { url: "/textures/forest/forestbg.jpg", format: "ldr" },
+    color: null,
+    environment: true,
+    ground: { texture: "/textures/forest/floor.jpg", repeat: 25 },
+  },
+  {
+    id: "city",
+    name: "City at Night",
+    sky: { url: "/textures/city/cyberbg.jpg", format: "ldr" },
+    color: null,
+    environment: true,
+    ground: { texture: "/textures/city/floormetal.jpg", repeat: 25 },
+  },
+  {
+    id: "venice",
+    name: "Venice Sunset HDR",
+    sky: {
+      url: "https://unpkg.com/three@0.160.0/examples/textures/equirectangular/venice_sunset_1k.hdr",
+      format: "hdr",
+    },
+    color: null,
+    environment: true,
+    ground: { color: 0xbbbbbb },
+  },
+  {
+    id: "royal",
+    name: "Royal Esplanade HDR",
+    sky: {
+      url: "https://unpkg.com/three@0.160.0/examples/textures/equirectangular/royal_esplanade_1k.hdr",
+      format: "hdr",
+    },
+    color: null,
+    environment: true,
+    ground: { color: 0xbbbbbb },
+  },
+];
+
+export const DEFAULT_BACKGROUND = BUILTIN_BACKGROUNDS[0];
+
+export const findBackground = (id: string | null | undefined, extra: BackgroundDescriptor[] = []) =>
+  [...BUILTIN_BACKGROUNDS, ...extra].find((b) => b.id === id);
+
+/** Sky format for an uploaded file name, or null when it is not a supported image. */
+export const skyFormatOf = (fileName: string): SkyFormat | null => {
+  const ext = fileName.toLowerCase().split(".").pop();
+  if (ext === "jpg" || ext === "jpeg") return "ldr";
+  if (ext === "hdr") return "hdr";
+  if (ext === "exr") return "exr";
+  return null;
+};
+
+/** Descriptor for an uploaded sky image: lit by it, standing on a plain floor. */
+export const customBackground = (id: string, name: string, url: string, format: SkyFormat): BackgroundDescriptor => ({
+  id,
+  name,
+  sky: { url, format },
+  color: null,
+  environment: true,
+  ground: { color: 0xbbbbbb },
+  custom: true,
+});
@@ -0,0 +1,262 @@
+// Character manifest: every persona the front-ends offer, loaded at runtime from
+// public/characters.json so adding one needs no code change.
+//
+//   { "version": 1,
+//     "idlePacks": { "<pack>": ["/idleanimations/...fbx", ...] },
+//     "characters": [{ "id", "name", "modelUrl", ... }] }
+//
+// The file is validated here and normalised into CharacterDefinition. A broken
+// file (bad JSON, wrong version, no characters) is an error; a single broken
+// character is skipped with a warning so the others still load.
+
+import { EMOTIONS, type Emotion, type EmotionOverrides } from "./ThreeCanvas";
+import { HUMANOID_BONES, RIG_CONVENTIONS, type RigConvention, type RigOverrides } from "./retargeting";
+
+export const CHARACTER_MANIFEST_URL = "/characters.json";
+export const CHARACTER_MANIFEST_VERSION = 1;
+
+// Idle used when a character names neither a pack nor its own clips
+const FALLBACK_IDLE = "/idleanimations/StandIdle.fbx";
+
+export type CharacterGender = "male" | "female";
+
+export interface CharacterDefinition {
+  id: string;
+  name: string;
+  modelUrl: string;
+  gender: CharacterGender | null;
+  // Idle clips the canvas cycles through; never empty
+  idleAnimationUrls: string[];
+  // Played once after the model loads
+  introAnimationUrl: string | null;
+  // Played when the user interrupts a reply
+  interruptAnimationUrl: string | null;
+  // Occasional clip mixed into long idles
+  ambientAnimationUrl: string | null;
+  // Played while the user is typing
+  typingAnimationUrl: string | null;
+  // Body clips alternated while speaking, at most two are used
+  talkingAnimationUrls: string[];
+  // Viseme profile id (see visemeProfiles.ts)
+  visemeProfile: string | null;
+  // Per-emotion morph weights layered over the canvas defaults
+  emotionOverrides: EmotionOverrides;
+  // Corrections for a rig the retargeting gets wrong (see retargeting.ts)
+  retarget: RigOverrides | null;
+  // TTS voice name sent to the backend
+  voice: string | null;
+  // Background preset key selected with the character
+  defaultBackground: string | null;
+  thumbnail: string | null;
+  tags: string[];
+  description: string;
+}
+
+export interface CharacterManifest {
+  version: number;
+  characters: CharacterDefinition[];
+}
+
+/** The manifest could not be fetched or is not the shape described above. */
+export class CharacterManifestError extends Error {
+  readonly path: string;
+  constructor(path: string, problem: string, options?: { cause?: unknown }) {
+    super(`Invalid character manifest: ${path} ${problem}`, options);
+    this.name = "CharacterManifestError";
+    this.path = path;
+  }
+}
+
+// --- Validation ---
+
+type Json = Record<string, unknown>;
+
+const isObj = (v: unknown): v is Json => !!v && typeof v === "object" && !Array.isArray(v);
+
+const expectObject = (value: unknown, path: string): Json => {
+  if (!isObj(value)) throw new CharacterManifestError(path, "must be an object");
+  return value;
+};
+
+const optionalString = (obj: Json, key: string, path: string): string | null => {
+  const v = obj[key];
+  if (v === undefined || v === null || v === "") return null;
+  if (typeof v !== "string") throw new CharacterManifestError(`${path}.${key}`, "must be a string");
+  return v;
+};
+
+const requireString = (obj: Json, key: string, path: string): string => {
+  const v = optionalString(obj, key, path);
+  if (v === null || !v.trim()) throw new CharacterManifestError(`${path}.${key}`, "is required");
+  return v;
+};
+
+const stringArray = (value: unknown, path: string): string[] => {
+  if (value === undefined || value === null) return [];
+  if (!Array.isArray(value) || value.some((item) => typeof item !== "string" || !item)) {
+    throw new CharacterManifestError(path, "must be a list of non-empty strings");
+  }
+  return value as string[];
+};
+
+const toGender = (obj: Json, path: string): CharacterGender | null => {
+  const v = optionalString(obj, "gender", path);
+  if (v === null) return null;
+  if (v !== "male" && v !== "female") throw new CharacterManifestError(`${path}.gender`, 'must be "male" or "female"');
+  return v;
+};
+
+const toEmotionOverrides = (value: unknown, path: string): EmotionOverrides => {
+  if (value === undefined || value === null) return {};
+  const obj = expectObject(value, path);
+  const overrides: EmotionOverrides = {};
+  for (const [emotion, weights] of Object.entries(obj)) {
+    if (!EMOTIONS.includes(emotion as Emotion)) {
+      throw new CharacterManifestError(`${path}.${emotion}`, `is not an emotion (${EMOTIONS.join(", ")})`);
+    }
+    const morphs = expectObject(weights, `${path}.${emotion}`);
+    for (const [morph, weight] of Object.entries(morphs)) {
+      if (typeof weight !== "number" || weight < 0 || weight > 1) {
+        throw new CharacterManifestError(`${path}.${emotion}.${morph}`, "must be a number from 0 to 1");
+      }
+    }
+    overrides[emotion as Emotion] = morphs as Record<string, number>;
+  }
+  return overrides;
+};
+
+const toRigOverrides = (value: unknown, path: string): RigOverrides | null => {
+  if (value === undefined || value === null) return null;
+  const obj = expectObject(value, path);
+  const overrides: RigOverrides = {};
+  const convention = optionalString(obj, "convention", path);
+  if (convention !== null) {
+    if (!RIG_CONVENTIONS.includes(convention as RigConvention)) {
+      throw new CharacterManifestError(`${path}.convention`, `must be one of ${RIG_CONVENTIONS.join(", ")}`);
+    }
+    overrides.convention = convention as RigConvention;
+  }
+  if (obj.bones !== undefined && obj.bones !== null) {
+    const bones = expectObject(obj.bones, `${path}.bones`);
+    for (const [role, bone] of Object.entries(bones)) {
+      if (!HUMANOID_BONES.includes(role)) {
+        throw new CharacterManifestError(`${path}.bones.${role}`, "is not a humanoid bone");
+      }
+      if (bone !== null && (typeof bone !== "string" || !bone)) {
+        throw new CharacterManifestError(`${path}.bones.${role}`, "must be a bone name or null");
+      }
+    }
+    overrides.bones = bones as RigOverrides["bones"];
+  }
+  return overrides;
+};
+
+const toIdlePacks = (value: unknown, path: string): Map<string, string[]> => {
+  const packs = new Map<string, string[]>();
+  if (value === undefined || value === null) return packs;
+  for (const [name, list] of Object.entries(expectObject(value, path))) {
+    const urls = stringArray(list, `${path}.${name}`);
+    if (!urls.length) throw new CharacterManifestError(`${path}.${name}`, "must not be empty");
+    packs.set(name, urls);
+  }
+  return packs;
+};
+
+// Own clips win over a named pack, which wins over the gender's pack
+const resolveIdles = (obj: Json, path: string, gender: CharacterGender | null, packs: Map<string, string[]>) => {
+  const own = obj.idleAnimationUrl;
+  if (typeof own === "string" && own) return [own];
+  const ownList = stringArray(own, `${path}.idleAnimationUrl`);
+  if (ownList.length) return ownList;
+  const pack = optionalString(obj, "idlePack", path);
+  if (pack !== null) {
+    const urls = packs.get(pack);
+    if (!urls) throw new CharacterManifestError(`${path}.idlePack`, `names unknown pack "${pack}"`);
+    return urls;
+  }
+  return (gender && packs.get(gender)) || [FALLBACK_IDLE];
+};
+
+const toCharacter = (value: unknown, path: string, packs: Map<string, string[]>): CharacterDefinition => {
+  const obj = expectObject(value, path);
+  const gender = toGender(obj, path);
+  return {
+    id: requireString(obj, "id", path),
+    name: requireString(obj, "name", path),
+    modelUrl: requireString(obj, "modelUrl", path),
+    gender,
+    idleAnimationUrls: resolveIdles(obj, path, gender, packs),
+    introAnimationUrl: optionalString(obj, "introAnimationUrl", path),
+    interruptAnimationUrl: optionalString(obj, "interruptAnimationUrl", path),
+    ambientAnimationUrl: optionalString(obj, "ambientAnimationUrl", path),
+    typingAnimationUrl: optionalString(obj, "typingAnimationUrl", path),
+    talkingAnimationUrls: stringArray(obj.talkingAnimationUrls, `${path}.talkingAnimationUrls`),
+    visemeProfile: optionalString(obj, "visemeProfile", path),
+    emotionOverrides: toEmotionOverrides(obj.emotionOverrides, `${path}.emotionOverrides`),
+    retarget: toRigOverrides(obj.retarget, `${path}.retarget`),
+    voice: optionalString(obj, "voice", path),
+    defaultBackground: optionalString(obj, "defaultBackground", path),
+    thumbnail: optionalString(obj, "thumbnail", path),
+    tags: stringArray(obj.tags, `${path}.tags`),
+    description: optionalString(obj, "description", path) ?? "",
+  };
+};
+
+/** Validate a parsed manifest. Throws CharacterManifestError when nothing usable is left. */
+export const parseCharacterManifest = (payload: unknown): CharacterManifest => {
+  const root = expectObject(payload, "manifest");
+  if (root.version !== CHARACTER_MANIFEST_VERSION) {
+    throw new CharacterManifestError(
+      "manifest.version",
+      `${String(root.version)} is not supported (expected ${CHARACTER_MANIFEST_VERSION})`
+    );
+  }
+  if (!Array.isArray(root.characters)) throw new CharacterManifestError("manifest.characters", "must be a list");
+  const packs = toIdlePacks(root.idlePacks, "manifest.idlePacks");
+
+  const characters: CharacterDefinition[] = [];
+  const seen = new Set<string>();
+  root.characters.forEach((entry, i) => {
+    const path = `manifest.characters[${i}]`;
+    try {
+      const character = toCharacter(entry, path, packs);
+      if (seen.has(character.id)) throw new CharacterManifestError(`${path}.id`, `"${character.id}" is used twice`);
+      seen.add(character.id);
+      characters.push(character);
+    } catch (err) {
+      if (!(err instanceof CharacterManifestError)) throw err;
+      console.warn(`Skipping character: ${err.message}`);
+    }
+  });
+  if (!characters.length) throw new CharacterManifestError("manifest.characters", "has no valid character");
+  return { version: CHARACTER_MANIFEST_VERSION, characters };
+};
+
+let manifestPromise: Promise<CharacterManifest> | null = null;
+
+/** Fetch and validate the manifest once per page; a failed load is retried on the next call. */
+export const loadCharacterManifest = () => {
+  if (!manifestPromise) {
+    manifestPromise = (async () => {
+      const url = CHARACTER_MANIFEST_URL;
+      let res: Response;
+      try {
+        res = await fetch(url);
+      } catch (err) {
+        throw new CharacterManifestError(url, "could not be fetched", { cause: err });
+      }
+      if (!res.ok) throw new CharacterManifestError(url, `returned ${res.status}`);
+      let payload: unknown;
+      try {
+        payload = await res.json();
+      } catch (err) {
+        throw new CharacterManifestError(url, "is not valid JSON", { cause: err });
+      }
+      return parseCharacterManifest(payload);
+    })().catch((err) => {
+      manifestPromise = null;
+      throw err;
+    });
+  }
+  return manifestPromise;
+};
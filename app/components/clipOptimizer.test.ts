@@ -0,0 +1,115 @@
+import * as THREE from "three";
+import { describe, expect, it } from "vitest";
+import { optimizeClip } from "./clipOptimizer";
+
+const times = (n: number) => Array.from({ length: n }, (_, i) => i / 10);
+
+// Rotation about Y by `angles[i]` at key i
+const yawTrack = (name: string, angles: number[]) => {
+  const q = new THREE.Quaternion();
+  const values = angles.flatMap((angle) => q.setFromAxisAngle(new THREE.Vector3(0, 1, 0), angle).toArray());
+  return new THREE.QuaternionKeyframeTrack(name, times(angles.length), values);
+};
+
+// Hips with a Spine child, bound in the pose they are in
+const skeleton = () => {
+  const hips = new THREE.Bone();
+  hips.name = "Hips";
+  hips.position.set(0, 1, 0);
+  const spine = new THREE.Bone();
+  spine.name = "Spine";
+  spine.position.set(0, 0.1, 0);
+  spine.quaternion.setFromAxisAngle(new THREE.Vector3(1, 0, 0), 0.3);
+  hips.add(spine);
+  hips.updateMatrixWorld(true);
+  return new THREE.Skeleton([hips, spine]);
+};
+
+describe("optimizeClip decimation", () => {
+  it("keeps only the ends of a straight position track", () => {
+    const values = times(11).flatMap((t) => [t, 2 * t, 0]);
+    const clip = new THREE.AnimationClip("walk", -1, [new THREE.VectorKeyframeTrack("Hips.position", times(11), values)]);
+    const report = optimizeClip(clip);
+    expect(Array.from(clip.tracks[0].times)).toEqual([0, 1].map(Math.fround));
+    expect(report).toMatchObject({ keysBefore: 11, keysAfter: 2, tracksAfter: 1 });
+  });
+
+  it("keeps the keys a bend needs", () => {
+    const values = [0, 0, 0, 1, 0, 0, 2, 0, 0, 2, 1, 0, 2, 2, 0];
+    const clip = new THREE.AnimationClip("turn", -1, [new THREE.VectorKeyframeTrack("Hips.position", times(5), values)]);
+    optimizeClip(clip);
+    expect(Array.from(clip.tracks[0].values)).toEqual([0, 0, 0, 2, 0, 0, 2, 2, 0]);
+  });
+
+  it("reduces a steady rotation to its ends, which slerp reproduces", () => {
+    const clip = new THREE.AnimationClip("spin", -1, [yawTrack("Spine.quaternion", times(9).map((t) => t * 2))]);
+    optimizeClip(clip);
+    expect(clip.tracks[0].times.length).toBe(2);
+  });
+
+  it("keeps keys that move further than the tolerance", () => {
+    const angles = [0, 0.01, 0, 0.01, 0];
+    const loose = new THREE.AnimationClip("jitter", -1, [yawTrack("Spine.quaternion", angles)]);
+    const strict = new THREE.AnimationClip("jitter", -1, [yawTrack("Spine.quaternion", angles)]);
+    optimizeClip(loose, { rotationTolerance: 0.05 });
+    optimizeClip(strict);
+    expect(loose.tracks[0].times.length).toBe(2);
+    expect(strict.tracks[0].times.length).toBe(5);
+  });
+
+  it("leaves step interpolated tracks alone", () => {
+    const values = times(5).flatMap((t) => [t, 0, 0]);
+    const track = new THREE.VectorKeyframeTrack("Hips.position", times(5), values, THREE.InterpolateDiscrete);
+    const clip = new THREE.AnimationClip("step", -1, [track]);
+    optimizeClip(clip);
+    expect(clip.tracks[0].times.length).toBe(5);
+  });
+});
+
+describe("optimizeClip constant tracks", () => {
+  it("drops tracks holding the bind value and keeps other constant tracks", () => {
+    const rig = skeleton();
+    const spineRest = rig.bones[1].quaternion.toArray();
+    const clip = new THREE.AnimationClip("idle", -1, [
+      new THREE.QuaternionKeyframeTrack("Spine.quaternion", times(4), Array(4).fill(spineRest).flat()),
+      new THREE.VectorKeyframeTrack("Hips.position", times(4), Array(4).fill([0, 1, 0]).flat()),
+      // Held, but away from the bind pose: the bone has to be moved there
+      new THREE.VectorKeyframeTrack("Spine.position", times(4), Array(4).fill([0, 0.2, 0]).flat()),
+    ]);
+    // Posing the skeleton must not change what counts as rest
+    rig.bones[1].quaternion.identity();
+    const report = optimizeClip(clip, { skeleton: rig });
+    expect(report.constantTracksRemoved).toBe(2);
+    expect(clip.tracks.map((t) => t.name)).toEqual(["Spine.position"]);
+    expect(clip.tracks[0].times.length).toBe(2);
+  });
+
+  it("keeps a track that leaves the bind value once", () => {
+    const rig = skeleton();
+    const values = [0, 1, 0, 0, 1, 0, 0, 1.2, 0, 0, 1, 0];
+    const clip = new THREE.AnimationClip("hop", -1, [new THREE.VectorKeyframeTrack("Hips.position", times(4), values)]);
+    const report = optimizeClip(clip, { skeleton: rig });
+    expect(report.constantTracksRemoved).toBe(0);
+    expect(clip.tracks).toHaveLength(1);
+  });
+
+  it("only treats unit scale as rest without a skeleton", () => {
+    const clip = new THREE.AnimationClip("idle", -1, [
+      new THREE.VectorKeyframeTrack("Hips.scale", times(3), Array(3).fill([1, 1, 1]).flat()),
+      new THREE.VectorKeyframeTrack("Hips.position", times(3), Array(3).fill([0, 1, 0]).flat()),
+    ]);
+    const report = optimizeClip(clip);
+    expect(report.constantTracksRemoved).toBe(1);
+    expect(clip.tracks.map((t) => t.name)).toEqual(["Hips.position"]);
+  });
+
+  it("drops finger tracks when asked", () => {
+    const clip = new THREE.AnimationClip("wave", -1, [
+      yawTrack("LeftHandIndex1.quaternion", [0, 1]),
+      yawTrack("LeftHand.quaternion", [0, 1]),
+    ]);
+    const report = optimizeClip(clip, { dropFingers: true });
+    expect(report.fingerTracksRemoved).toBe(1);
+    expect(clip.tracks.map((t) => t.name)).toEqual(["LeftHand.quaternion"]);
+  });
+});
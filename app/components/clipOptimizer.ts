@@ -0,0 +1,182 @@
+// Keyframe reduction for retargeted clips. FBX exports and generated BVH keep
+// every sampled key on every bone; most of them can be rebuilt by the mixer's
+// own interpolation. optimizeClip removes, in order:
+//
+//   finger tracks    when asked (dropFingers); e.g. BVH without finger joints
+//   constant tracks  holding the bone's rest value for the whole clip, so the
+//                    mixer leaves the bone as it is anyway
+//   redundant keys   that the interpolation between their neighbours already
+//                    reproduces within tolerance (slerp for quaternions, lerp
+//                    for positions and scales)
+//
+// The clip is changed in place; the returned report says what went. Reports
+// (and the retargeting notes next to them) are only logged with
+// NEXT_PUBLIC_DEBUG_ANIMATIONS=1, through logClipDebug.
+
+import * as THREE from "three";
+import { bindLocalPose, trackTarget } from "./retargeting";
+
+export interface ClipOptimizeOptions {
+  // Largest rotation error a dropped key may introduce, in radians
+  rotationTolerance?: number;
+  // Largest position/scale error a dropped key may introduce, in scene units
+  positionTolerance?: number;
+  dropFingers?: boolean;
+  // Target skeleton: constant tracks equal to a bone's bind value are removed,
+  // whatever pose the skeleton is in. Without it only constant unit scales count as rest.
+  skeleton?: THREE.Skeleton;
+}
+
+export interface ClipOptimizeReport {
+  clip: string;
+  tracksBefore: number;
+  tracksAfter: number;
+  keysBefore: number;
+  keysAfter: number;
+  constantTracksRemoved: number;
+  fingerTracksRemoved: number;
+}
+
+const DEFAULT_ROTATION_TOLERANCE = 0.002; // ~0.1°
+const DEFAULT_POSITION_TOLERANCE = 0.001;
+
+const FINGER_BONE = /(Thumb|Index|Middle|Ring|Pinky)\d/i;
+
+const countKeys = (clip: THREE.AnimationClip) => clip.tracks.reduce((sum, t) => sum + t.times.length, 0);
+
+const isQuaternionTrack = (track: THREE.KeyframeTrack) => track.ValueTypeName === "quaternion";
+
+const qa = new THREE.Quaternion();
+const qb = new THREE.Quaternion();
+
+// Error of key `i` against the interpolation between keys `a` and `b`
+const keyError = (track: THREE.KeyframeTrack, a: number, i: number, b: number) => {
+  const { times, values } = track;
+  const size = track.getValueSize();
+  const t = (times[i] - times[a]) / (times[b] - times[a]);
+  if (isQuaternionTrack(track)) {
+    qa.fromArray(values, a * 4).slerp(qb.fromArray(values, b * 4), t);
+    return qa.angleTo(qb.fromArray(values, i * 4));
+  }
+  let error = 0;
+  for (let k = 0; k < size; k++) {
+    const expected = values[a * size + k] + (values[b * size + k] - values[a * size + k]) * t;
+    error = Math.max(error, Math.abs(expected - values[i * size + k]));
+  }
+  return error;
+};
+
+const valueError = (track: THREE.KeyframeTrack, i: number, reference: ArrayLike<number>) => {
+  const size = track.getValueSize();
+  if (isQuaternionTrack(track)) {
+    return qa.fromArray(reference).angleTo(qb.fromArray(track.values, i * 4));
+  }
+  let error = 0;
+  for (let k = 0; k < size; k++) error = Math.max(error, Math.abs(reference[k] - track.values[i * size + k]));
+  return error;
+};
+
+type BindPose = ReturnType<typeof bindLocalPose>;
+
+const restValue = (bone: string, property: string, bind: BindPose | null): number[] | null => {
+  const rest = bind?.get(bone);
+  if (rest && (property === "quaternion" || property === "position" || property === "scale")) {
+    return rest[property].toArray() as number[];
+  }
+  return property === "scale" ? [1, 1, 1] : null;
+};
+
+// Longest run of keys one span may replace; bounds the cost on long, flat tracks
+const MAX_SPAN = 64;
+
+// Whether interpolating from key `a` to key `b` reproduces every key in between
+const spanFits = (track: THREE.KeyframeTrack, a: number, b: number, tolerance: number) => {
+  for (let i = a + 1; i < b; i++) {
+    if (keyError(track, a, i, b) > tolerance) return false;
+  }
+  return true;
+};
+
+// Greedy pass: key i is dropped while the span from the last kept key to i + 1
+// still reproduces all skipped keys. Linear tracks only; step/smooth curves are
+// left alone.
+const decimate = (track: THREE.KeyframeTrack, tolerance: number) => {
+  const n = track.times.length;
+  if (n <= 2 || track.getInterpolation() !== THREE.InterpolateLinear) return;
+  const keep = [0];
+  for (let i = 1; i < n - 1; i++) {
+    const last = keep[keep.length - 1];
+    if (i + 1 - last > MAX_SPAN || !spanFits(track, last, i + 1, tolerance)) keep.push(i);
+  }
+  keep.push(n - 1);
+  if (keep.length === n) return;
+  const size = track.getValueSize();
+  const times = new Float32Array(keep.length);
+  const values = new Float32Array(keep.length * size);
+  keep.forEach((src, dst) => {
+    times[dst] = track.times[src];
+    values.set(track.values.subarray(src * size, (src + 1) * size), dst * size);
+  });
+  track.times = times;
+  track.values = values;
+};
+
+/** Reduce `clip` in place and report the track and key counts before and after. */
+export const optimizeClip = (clip: THREE.AnimationClip, options: ClipOptimizeOptions = {}): ClipOptimizeReport => {
+  const rotationTolerance = options.rotationTolerance ?? DEFAULT_ROTATION_TOLERANCE;
+  const positionTolerance = options.positionTolerance ?? DEFAULT_POSITION_TOLERANCE;
+  const report: ClipOptimizeReport = {
+    clip: clip.name,
+    tracksBefore: clip.tracks.length,
+    tracksAfter: 0,
+    keysBefore: countKeys(clip),
+    keysAfter: 0,
+    constantTracksRemoved: 0,
+    fingerTracksRemoved: 0,
+  };
+
+  const bind = options.skeleton ? bindLocalPose(options.skeleton) : null;
+  clip.tracks = clip.tracks.filter((track) => {
+    const { bone, property } = trackTarget(track.name);
+    if (options.dropFingers && FINGER_BONE.test(bone)) {
+      report.fingerTracksRemoved += 1;
+      return false;
+    }
+    const tolerance = isQuaternionTrack(track) ? rotationTolerance : positionTolerance;
+    const rest = restValue(bone, property, bind);
+    if (rest && rest.length === track.getValueSize()) {
+      let constant = true;
+      for (let i = 0; i < track.times.length && constant; i++) constant = valueError(track, i, rest) <= tolerance;
+      if (constant) {
+        report.constantTracksRemoved += 1;
+        return false;
+      }
+    }
+    decimate(track, tolerance);
+    return true;
+  });
+
+  report.tracksAfter = clip.tracks.length;
+  report.keysAfter = countKeys(clip);
+  return report;
+};
+
+const DEBUG_ANIMATIONS = process.env.NEXT_PUBLIC_DEBUG_ANIMATIONS === "1";
+
+/** console.debug for per-clip notes, a no-op unless NEXT_PUBLIC_DEBUG_ANIMATIONS=1. */
+export const logClipDebug = (...args: unknown[]) => {
+  if (DEBUG_ANIMATIONS) console.debug(...args);
+};
+
+/** One-line summary for logs, e.g. "Waving: 156 → 65 tracks, 7020 → 1310 keys". */
+export const describeClipReport = (report: ClipOptimizeReport) => {
+  const removed = [
+    report.constantTracksRemoved && `${report.constantTracksRemoved} constant`,
+    report.fingerTracksRemoved && `${report.fingerTracksRemoved} finger`,
+  ].filter(Boolean);
+  return (
+    `${report.clip || "(unnamed clip)"}: ${report.tracksBefore} → ${report.tracksAfter} tracks, ` +
+    `${report.keysBefore} → ${report.keysAfter} keys` +
+    (removed.length ? ` (dropped ${removed.join(" and ")} tracks)` : "")
+  );
+};
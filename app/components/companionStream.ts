@@ -0,0 +1,90 @@
+// Incremental reader for streamed /api/companion replies.
+// The backend may answer with Server-Sent Events (text/event-stream) or
+// newline-delimited JSON (application/x-ndjson); both carry the same events.
+
+import type { RawVisemePayload } from "./visemeFormats";
+
+export type CompanionStreamEvent =
+  // A piece of the reply text, in order
+  | { type: "text"; delta: string }
+  // A chunk of speech audio; `visemes` (any format in visemeFormats.ts) are
+  // relative to the start of this chunk
+  | { type: "audio"; audio_base64: string; visemes?: RawVisemePayload; viseme_format?: string }
+  // A standalone batch of cues, timed against the whole utterance's audio
+  | { type: "visemes"; visemes: RawVisemePayload; viseme_format?: string }
+  | {
+      type: "meta";
+      emotion?: string;
+      mixamo_animation?: string | string[];
+      bvh_files?: string[];
+    }
+  | { type: "done"; response?: string }
+  | { type: "error"; message: string };
+
+export const STREAM_ACCEPT = "application/x-ndjson, text/event-stream;q=0.9, application/json;q=0.5";
+
+export const isStreamingResponse = (res: Response) => {
+  const type = res.headers.get("content-type") || "";
+  return /text\/event-stream|application\/(x-)?ndjson/i.test(type);
+};
+
+const parseEvent = (raw: string, sseEventName?: string): CompanionStreamEvent | null => {
+  const text = raw.trim();
+  if (!text || text === "[DONE]") return text === "[DONE]" ? { type: "done" } : null;
+  try {
+    const parsed = JSON.parse(text);
+    if (parsed && typeof parsed === "object") {
+      if (!parsed.type && sseEventName) parsed.type = sseEventName;
+      if (typeof parsed.type === "string") return parsed as CompanionStreamEvent;
+    }
+  } catch (err) {
+    console.warn("companionStream: skipping unparseable event", text.slice(0, 80), err);
+  }
+  return null;
+};
+
+/**
+ * Yield events from a streamed companion response as soon as each one is complete.
+ * Ends after a `done` event or when the body closes.
+ */
+export async function* readCompanionStream(
+  res: Response
+): AsyncGenerator<CompanionStreamEvent> {
+  if (!res.body) throw new Error("Streaming response has no body");
+  const isSSE = /text\/event-stream/i.test(res.headers.get("content-type") || "");
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  // SSE frames are separated by a blank line; NDJSON records by a newline
+  const separator = isSSE ? /\r?\n\r?\n/ : /\r?\n/;
+
+  const parseFrame = (frame: string): CompanionStreamEvent | null => {
+    if (!isSSE) return parseEvent(frame);
+    let eventName: string | undefined;
+    const data: string[] = [];
+    for (const line of frame.split(/\r?\n/)) {
+      if (line.startsWith("event:")) eventName = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+    }
+    return data.length ? parseEvent(data.join("\n"), eventName) : null;
+  };
+
+  try {
+    while (true) {
+      const { value, done } = await reader.read();
+      buffer += decoder.decode(value, { stream: !done });
+      const frames = buffer.split(separator);
+      buffer = done ? "" : frames.pop() ?? "";
+      for (const frame of frames) {
+        const event = parseFrame(frame);
+        if (!event) continue;
+        yield event;
+        if (event.type === "done") return;
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.releaseLock();
+  }
+}
@@ -0,0 +1,236 @@
+// Per-character conversations persisted in the browser's IndexedDB.
+//
+//   conversations  { id, character, title, createdAt, updatedAt }, indexed by character
+//   messages       { id, conversationId, role, text, createdAt, performance? }, indexed by conversation
+//                  and by [conversationId, text] so search reads keys without loading audio
+//
+// Every function rejects when IndexedDB is unavailable (SSR, some private
+// modes); callers keep working in memory in that case.
+
+import type { Emotion, VisemeCue } from "./ThreeCanvas";
+
+export type ChatRole = "user" | "assistant";
+
+// Everything needed to perform an assistant reply again exactly as it was first played
+export interface ReplyPerformance {
+  emotion: Emotion;
+  // Gesture clip URLs, started with the speech
+  gestures: string[];
+  // Speech audio in playback order, each with its own viseme timeline and the
+  // text the canvas aligned it to when it had no cues
+  segments: Array<{ audio: Blob; visemes: VisemeCue[]; text?: string }>;
+  // Cue batches that arrived on their own, timed against the whole utterance
+  visemes: VisemeCue[];
+}
+
+export interface StoredConversation {
+  id: string;
+  character: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface StoredMessage {
+  id: number;
+  conversationId: string;
+  role: ChatRole;
+  text: string;
+  createdAt: number;
+  performance?: ReplyPerformance;
+}
+
+export type NewMessage = Omit<StoredMessage, "id" | "conversationId" | "createdAt">;
+
+const DB_NAME = "companion-chats";
+const DB_VERSION = 2;
+const CONVERSATIONS = "conversations";
+const MESSAGES = "messages";
+
+export const DEFAULT_CONVERSATION_TITLE = "New chat";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = () => {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB is not available"));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(CONVERSATIONS)) {
+          db.createObjectStore(CONVERSATIONS, { keyPath: "id" }).createIndex("character", "character");
+        }
+        const messages = db.objectStoreNames.contains(MESSAGES)
+          ? req.transaction!.objectStore(MESSAGES)
+          : db.createObjectStore(MESSAGES, { keyPath: "id", autoIncrement: true });
+        if (!messages.indexNames.contains("conversationId")) messages.createIndex("conversationId", "conversationId");
+        if (!messages.indexNames.contains("text")) messages.createIndex("text", ["conversationId", "text"]);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+      req.onblocked = () => reject(new Error("IndexedDB upgrade blocked by another tab"));
+    }).catch((err) => {
+      dbPromise = null;
+      throw err;
+    });
+  }
+  return dbPromise;
+};
+
+const request = <T>(req: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+
+// Run `work` in one transaction and resolve with its result once it commits. A
+// failing `work` aborts the transaction so none of its writes land.
+const withStores = async <T>(
+  mode: IDBTransactionMode,
+  work: (stores: { conversations: IDBObjectStore; messages: IDBObjectStore }) => Promise<T>
+): Promise<T> => {
+  const db = await openDb();
+  const tx = db.transaction([CONVERSATIONS, MESSAGES], mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error || new Error("Transaction aborted"));
+  });
+  const running = work({ conversations: tx.objectStore(CONVERSATIONS), messages: tx.objectStore(MESSAGES) }).catch(
+    (err) => {
+      try {
+        tx.abort();
+      } catch {}
+      throw err;
+    }
+  );
+  // Both settle together, so the commit failing after `work` is never left unhandled
+  const [result] = await Promise.all([running, done]);
+  return result;
+};
+
+const newId = () =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+
+/** Title for a conversation named after its first message. */
+export const titleFromText = (text: string) => {
+  const clean = text.replace(/\[[^\]]*\]/g, "").replace(/\s+/g, " ").trim();
+  if (!clean) return DEFAULT_CONVERSATION_TITLE;
+  return clean.length > 40 ? `${clean.slice(0, 39)}…` : clean;
+};
+
+/** The character's conversations, most recently active first. */
+export const listConversations = (character: string) =>
+  withStores("readonly", async ({ conversations }) => {
+    const list = await request<StoredConversation[]>(conversations.index("character").getAll(character));
+    return list.sort((a, b) => b.updatedAt - a.updatedAt);
+  });
+
+export const createConversation = (character: string, title = DEFAULT_CONVERSATION_TITLE) =>
+  withStores("readwrite", async ({ conversations }) => {
+    const now = Date.now();
+    const conversation: StoredConversation = { id: newId(), character, title, createdAt: now, updatedAt: now };
+    await request(conversations.add(conversation));
+    return conversation;
+  });
+
+export const renameConversation = (id: string, title: string) =>
+  withStores("readwrite", async ({ conversations }) => {
+    const conversation = await request<StoredConversation | undefined>(conversations.get(id));
+    if (!conversation) return null;
+    const renamed = { ...conversation, title: title.trim() || DEFAULT_CONVERSATION_TITLE };
+    await request(conversations.put(renamed));
+    return renamed;
+  });
+
+/** Delete a conversation and all of its messages. */
+export const deleteConversation = (id: string) =>
+  withStores("readwrite", async ({ conversations, messages }) => {
+    const keys = await request(messages.index("conversationId").getAllKeys(id));
+    await Promise.all(keys.map((key) => request(messages.delete(key))));
+    await request(conversations.delete(id));
+  });
+
+/** Messages of a conversation in the order they were added. */
+export const loadMessages = (conversationId: string) =>
+  withStores("readonly", async ({ messages }) => {
+    const list = await request<StoredMessage[]>(messages.index("conversationId").getAll(conversationId));
+    return list.sort((a, b) => a.id - b.id);
+  });
+
+/**
+ * Append a message and mark the conversation as just active. A conversation
+ * still called "New chat" is named after its first user message.
+ */
+export const addMessage = (conversationId: string, message: NewMessage) =>
+  withStores("readwrite", async ({ conversations, messages }) => {
+    const now = Date.now();
+    const record = { ...message, conversationId, createdAt: now };
+    const id = (await request(messages.add(record))) as number;
+    let conversation = await request<StoredConversation | undefined>(conversations.get(conversationId));
+    if (conversation) {
+      const title =
+        conversation.title === DEFAULT_CONVERSATION_TITLE && message.role === "user"
+          ? titleFromText(message.text)
+          : conversation.title;
+      conversation = { ...conversation, title, updatedAt: now };
+      await request(conversations.put(conversation));
+    }
+    return { message: { ...record, id } as StoredMessage, conversation: conversation ?? null };
+  });
+
+// Visit every key of `index` in order without loading the records behind them
+const eachKey = (index: IDBIndex, visit: (key: IDBValidKey) => void) =>
+  new Promise<void>((resolve, reject) => {
+    const req = index.openKeyCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return resolve();
+      visit(cursor.key);
+      cursor.continue();
+    };
+    req.onerror = () => reject(req.error);
+  });
+
+export interface ConversationMatch {
+  conversation: StoredConversation;
+  // Text around the first hit, for showing why it matched
+  snippet: string;
+}
+
+const snippetAround = (text: string, index: number, length: number) => {
+  const start = Math.max(0, index - 30);
+  const end = Math.min(text.length, index + length + 30);
+  return `${start > 0 ? "…" : ""}${text.slice(start, end).trim()}${end < text.length ? "…" : ""}`;
+};
+
+/** Conversations (of every character) whose title or messages contain `query`, case-insensitively. */
+export const searchConversations = (query: string) =>
+  withStores("readonly", async ({ conversations, messages }) => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    const all = await request<StoredConversation[]>(conversations.getAll());
+    const byId = new Map(all.map((c) => [c.id, c]));
+    const hits = new Map<string, ConversationMatch>();
+    for (const conversation of all) {
+      const at = conversation.title.toLowerCase().indexOf(needle);
+      if (at >= 0) hits.set(conversation.id, { conversation, snippet: conversation.title });
+    }
+    // Only the text index is read; the messages' audio stays on disk
+    await eachKey(messages.index("text"), (key) => {
+      const [conversationId, text] = key as [string, string];
+      if (hits.has(conversationId)) return;
+      const conversation = byId.get(conversationId);
+      const at = text.toLowerCase().indexOf(needle);
+      if (conversation && at >= 0) {
+        hits.set(conversationId, { conversation, snippet: snippetAround(text, at, needle.length) });
+      }
+    });
+    return Array.from(hits.values()).sort((a, b) => b.conversation.updatedAt - a.conversation.updatedAt);
+  });
@@ -0,0 +1,185 @@
+// Lifetime management for what ThreeCanvas creates.
+//
+// AssetCache    loaded GLTF/FBX files shared between users, reference counted;
+//               unreferenced entries are kept for reuse and evicted least recently
+//               used first once the cache is over capacity.
+// ResourceTracker  everything one owner (the scene, a character, a background)
+//               created, freed together by dispose().
+
+import * as THREE from "three";
+
+export interface Disposable {
+  dispose(): void;
+}
+
+// Download progress of one file, as reported by three's loaders
+export type ProgressListener = (event: ProgressEvent) => void;
+
+type CacheEntry<T> = {
+  promise: Promise<T>;
+  // Settled value, so eviction can free it without waiting
+  value?: T;
+  refs: number;
+  // Callers waiting on the first load; cleared once it settles
+  listeners: Set<ProgressListener>;
+};
+
+export interface AssetCacheOptions<T> {
+  load: (url: string, onProgress: ProgressListener) => Promise<T>;
+  // Frees a value once it is evicted
+  dispose?: (value: T) => void;
+  // Unreferenced entries beyond this are evicted
+  capacity: number;
+}
+
+export class AssetCache<T> {
+  // Map order is the LRU order: least recently used first
+  private entries = new Map<string, CacheEntry<T>>();
+  private options: AssetCacheOptions<T>;
+
+  constructor(options: AssetCacheOptions<T>) {
+    this.options = options;
+  }
+
+  get size() {
+    return this.entries.size;
+  }
+
+  /**
+   * Load (or reuse) `url` and hold a reference until release(url). `onProgress`
+   * hears about the download while it is still running.
+   */
+  acquire(url: string, onProgress?: ProgressListener): Promise<T> {
+    if (!url) return Promise.reject(new Error("Asset url missing"));
+    let entry = this.entries.get(url);
+    if (entry) {
+      this.entries.delete(url);
+    } else {
+      const listeners = new Set<ProgressListener>();
+      const created: CacheEntry<T> = {
+        promise: this.options.load(url, (event) => listeners.forEach((listener) => listener(event))),
+        refs: 0,
+        listeners,
+      };
+      created.promise.then(
+        (value) => {
+          created.value = value;
+          listeners.clear();
+        },
+        () => {
+          listeners.clear();
+          // Failed loads are not cached, so a later acquire retries
+          if (this.entries.get(url) === created) this.entries.delete(url);
+        }
+      );
+      entry = created;
+    }
+    if (onProgress && entry.value === undefined) entry.listeners.add(onProgress);
+    entry.refs += 1;
+    this.entries.set(url, entry);
+    return entry.promise;
+  }
+
+  release(url: string) {
+    const entry = this.entries.get(url);
+    if (!entry || entry.refs === 0) return;
+    entry.refs -= 1;
+    if (entry.refs === 0) this.evict();
+  }
+
+  /**
+   * Load `url` without keeping a reference: for callers that take what they
+   * need (e.g. a clip) right away. The value may be evicted later.
+   */
+  async load(url: string): Promise<T> {
+    try {
+      return await this.acquire(url);
+    } finally {
+      this.release(url);
+    }
+  }
+
+  /** Free every unreferenced entry. */
+  trim() {
+    this.evict(0);
+  }
+
+  private evict(capacity = this.options.capacity) {
+    for (const [url, entry] of Array.from(this.entries)) {
+      if (this.entries.size <= capacity) return;
+      // Still in use, or still loading (evicting would orphan the load)
+      if (entry.refs > 0 || entry.value === undefined) continue;
+      this.entries.delete(url);
+      try {
+        this.options.dispose?.(entry.value);
+      } catch (err) {
+        console.warn(`AssetCache: failed to dispose ${url}`, err);
+      }
+    }
+  }
+}
+
+/** Free the GPU resources of an object tree: geometries, materials, their textures and bone textures. */
+export const disposeObject3D = (root: THREE.Object3D) => {
+  root.traverse((child: any) => {
+    if (child.isSkinnedMesh) child.skeleton?.dispose();
+    if (!child.isMesh) return;
+    child.geometry?.dispose();
+    const mats = Array.isArray(child.material) ? child.material : [child.material];
+    mats.forEach((m: any) => {
+      if (!m) return;
+      for (const value of Object.values(m)) {
+        if ((value as THREE.Texture | null)?.isTexture) (value as THREE.Texture).dispose();
+      }
+      m.dispose();
+    });
+  });
+};
+
+export class ResourceTracker {
+  private cleanups: Array<() => void> = [];
+  private disposed = false;
+
+  /** Dispose `resource` (an object with dispose() or a cleanup function) with the tracker. */
+  track<R extends Disposable | (() => void)>(resource: R): R {
+    const cleanup = typeof resource === "function" ? (resource as () => void) : () => (resource as Disposable).dispose();
+    // Tracking after dispose() frees at once instead of leaking
+    if (this.disposed) cleanup();
+    else this.cleanups.push(cleanup);
+    return resource;
+  }
+
+  /**
+   * Acquire a cached asset and release it with the tracker. The release is only
+   * tracked once the load succeeds: a failed acquire holds no reference, and
+   * releasing anyway would drop one belonging to a later successful load.
+   */
+  async use<T>(cache: AssetCache<T>, url: string, onProgress?: ProgressListener): Promise<T> {
+    const value = await cache.acquire(url, onProgress);
+    this.track(() => cache.release(url));
+    return value;
+  }
+
+  /** Remove `root` from its parent and free what it owns when the tracker is disposed. */
+  trackObject(root: THREE.Object3D) {
+    this.track(() => {
+      root.removeFromParent();
+      disposeObject3D(root);
+    });
+    return root;
+  }
+
+  /** Run every cleanup, newest first. Errors are logged so one failure doesn't leak the rest. */
+  dispose() {
+    this.disposed = true;
+    const cleanups = this.cleanups.reverse();
+    this.cleanups = [];
+    for (const cleanup of cleanups) {
+      try {
+        cleanup();
+      } catch (err) {
+        console.warn("ResourceTracker: cleanup failed", err);
+      }
+    }
+  }
+}
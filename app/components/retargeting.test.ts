@@ -0,0 +1,102 @@
+import * as THREE from "three";
+import { describe, expect, it } from "vitest";
+import { detectRig, retargetClipByName, type RestPose } from "./retargeting";
+
+// Hips > Spine > LeftShoulder > LeftArm > LeftForeArm > LeftHand, every joint
+// unrotated; `arm` is the offset of the forearm from the upper arm and of the
+// hand from the forearm, so it sets which way the arm hangs at rest
+const chain = (arm: THREE.Vector3) => {
+  const offsets: Array<[string, THREE.Vector3]> = [
+    ["Hips", new THREE.Vector3(0, 1, 0)],
+    ["Spine", new THREE.Vector3(0, 0.2, 0)],
+    ["LeftShoulder", new THREE.Vector3(0.05, 0.2, 0)],
+    ["LeftArm", new THREE.Vector3(0.1, 0, 0)],
+    ["LeftForeArm", arm],
+    ["LeftHand", arm],
+  ];
+  const bones = offsets.map(([name, offset]) => {
+    const bone = new THREE.Bone();
+    bone.name = name;
+    bone.position.copy(offset);
+    return bone;
+  });
+  bones.slice(1).forEach((bone, i) => bones[i].add(bone));
+  bones[0].updateMatrixWorld(true);
+  return bones;
+};
+
+const restOf = (bones: THREE.Bone[]): RestPose =>
+  new Map(
+    bones.map((bone) => [
+      bone.name,
+      { position: bone.getWorldPosition(new THREE.Vector3()), quaternion: new THREE.Quaternion() },
+    ])
+  );
+
+// An A-pose character and a T-pose source; the source bends its spine a little
+// while it drops its arm to its side
+const aPose = () => new THREE.Skeleton(chain(new THREE.Vector3(0.2, -0.2, 0)));
+const tPose = restOf(chain(new THREE.Vector3(0.28, 0, 0)));
+const spineBend = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(1, 0, 0), 0.2);
+const armDown = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), -Math.PI / 2);
+
+const sourceClip = () => {
+  const still = new THREE.Quaternion().toArray();
+  const track = (bone: string, end: THREE.Quaternion) =>
+    new THREE.QuaternionKeyframeTrack(`${bone}.quaternion`, [0, 1], [...still, ...end.toArray()]);
+  return new THREE.AnimationClip("wave", 1, [
+    track("Hips", new THREE.Quaternion()),
+    track("Spine", spineBend),
+    track("LeftArm", armDown),
+    track("LeftForeArm", new THREE.Quaternion()),
+  ]);
+};
+
+// Pose the skeleton at time `t` of the clip, like the mixer would
+const poseAt = (skeleton: THREE.Skeleton, clip: THREE.AnimationClip, t: number) => {
+  skeleton.pose();
+  for (const track of clip.tracks) {
+    const bone = skeleton.getBoneByName(track.name.split(".")[0])!;
+    bone.quaternion.fromArray(track.createInterpolant().evaluate(t)).normalize();
+  }
+  skeleton.bones[0].updateMatrixWorld(true);
+};
+
+const armDirection = (skeleton: THREE.Skeleton) => {
+  const shoulder = skeleton.getBoneByName("LeftArm")!.getWorldPosition(new THREE.Vector3());
+  return skeleton.getBoneByName("LeftForeArm")!.getWorldPosition(new THREE.Vector3()).sub(shoulder).normalize();
+};
+
+describe("retargetClipByName rest alignment", () => {
+  it("plays a T-pose clip on an A-pose character with the source's arm directions", () => {
+    const skeleton = aPose();
+    const clip = sourceClip();
+    const { aligned } = retargetClipByName(clip, detectRig(skeleton.bones.map((b) => b.name)), skeleton, tPose);
+    expect(aligned).toBe(true);
+
+    poseAt(skeleton, clip, 0);
+    expect(armDirection(skeleton).distanceTo(new THREE.Vector3(1, 0, 0))).toBeLessThan(1e-4);
+    // Down at the source's side, which leans with its spine
+    poseAt(skeleton, clip, 1);
+    const down = new THREE.Vector3(0, -1, 0).applyQuaternion(spineBend);
+    expect(armDirection(skeleton).distanceTo(down)).toBeLessThan(1e-4);
+  });
+
+  it("leaves bones whose rest already matches as they were", () => {
+    const skeleton = aPose();
+    const clip = sourceClip();
+    retargetClipByName(clip, detectRig(skeleton.bones.map((b) => b.name)), skeleton, tPose);
+    const spine = clip.tracks.find((t) => t.name === "Spine.quaternion")!;
+    expect(new THREE.Quaternion().fromArray(spine.values, 4).angleTo(spineBend)).toBeLessThan(1e-6);
+  });
+
+  it("does not touch a clip whose source rests like the character", () => {
+    const skeleton = aPose();
+    const clip = sourceClip();
+    const before = clip.tracks.map((t) => Array.from(t.values));
+    const rest = restOf(chain(new THREE.Vector3(0.2, -0.2, 0)));
+    const { aligned } = retargetClipByName(clip, detectRig(skeleton.bones.map((b) => b.name)), skeleton, rest);
+    expect(aligned).toBe(false);
+    expect(clip.tracks.map((t) => Array.from(t.values))).toEqual(before);
+  });
+});
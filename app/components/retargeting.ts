@@ -0,0 +1,466 @@
+// Retargeting: moves clips between skeletons that name their bones differently.
+//
+// Every skeleton is described by a Rig: its convention and which of its bones
+// plays each humanoid role (VRM humanoid names: hips, spine, chest, leftUpperArm,
+// ...). Roles come from the naming tables in rigConventions.json:
+//
+//   mixamo          "mixamorig:Hips", "mixamorigHips" or plain "Hips"; Ready Player
+//                   Me rigs use the same names without the prefix
+//   smpl            SMPL's 22 joints, native ("Pelvis", "L_Hip") or with the
+//                   Mixamo-style names motion generators export ("LeftToe")
+//   cmu             CMU motion-capture BVH ("LowerBack", "LHipJoint")
+//   vrm             VRoid's "J_Bip_*" names, or the humanoid map in a VRM file
+//
+// detectRig scores every table against the bone names and keeps the best one.
+// A clip is then moved from its source rig to the target rig either by renaming
+// its tracks (FBX clips) or by posing the target after the source frame by frame
+// (BVH, see retargetPoseClip). Either way, a source whose rest pose differs from
+// the character's bind pose is aligned to it (see restCorrections).
+// Characters whose rig is detected wrongly can override roles per bone
+// (RigOverrides, the manifest's "retarget" field).
+
+import * as THREE from "three";
+import * as SkeletonUtils from "three/examples/jsm/utils/SkeletonUtils.js";
+import type { GLTF } from "three/examples/jsm/loaders/GLTFLoader.js";
+import rigConventions from "./rigConventions.json";
+
+export const RIG_CONVENTIONS = ["mixamo", "readyPlayerMe", "smpl", "cmu", "vrm"] as const;
+export type RigConvention = (typeof RIG_CONVENTIONS)[number];
+
+const SIDES = ["left", "right"] as const;
+const FINGERS = ["Thumb", "Index", "Middle", "Ring", "Little"] as const;
+const SEGMENTS = ["Proximal", "Intermediate", "Distal"] as const;
+
+export const HUMANOID_BONES = [
+  "hips",
+  "spine",
+  "chest",
+  "upperChest",
+  "neck",
+  "head",
+  ...SIDES.flatMap((side) => [
+    `${side}Eye`,
+    `${side}Shoulder`,
+    `${side}UpperArm`,
+    `${side}LowerArm`,
+    `${side}Hand`,
+    `${side}UpperLeg`,
+    `${side}LowerLeg`,
+    `${side}Foot`,
+    `${side}Toes`,
+    ...FINGERS.flatMap((finger) => SEGMENTS.map((segment) => `${side}${finger}${segment}`)),
+  ]),
+] as string[];
+export type HumanoidBone = string;
+
+// Humanoid role -> bone name in one skeleton
+export type HumanoidMap = Partial<Record<HumanoidBone, string>>;
+
+export interface Rig {
+  convention: RigConvention | "unknown";
+  bones: HumanoidMap;
+}
+
+/** Per-character corrections to what detectRig finds. */
+export interface RigOverrides {
+  convention?: RigConvention;
+  // Humanoid role -> bone name on the character; null leaves the role unanimated
+  bones?: Partial<Record<HumanoidBone, string | null>>;
+}
+
+type NameTable = { rig: string; bones: Partial<Record<string, string | null>> };
+
+const TABLES = (rigConventions.tables as NameTable[]).map((table) => ({
+  rig: table.rig as RigConvention,
+  // Matched case-insensitively
+  bones: new Map(Object.entries(table.bones).map(([name, role]) => [name.toLowerCase(), role])),
+}));
+
+// "mixamorig:Hips", "mixamorig1:Hips" and "mixamorigHips" all name Hips
+const MIXAMO_PREFIX = /^mixamorig\d*:?/i;
+
+export const normalizeBoneName = (name: string) => name.replace(MIXAMO_PREFIX, "");
+
+/**
+ * Work out the convention of a skeleton and the role of each bone. `humanoid`
+ * (e.g. from a VRM file, see vrmHumanoid) wins over name matching.
+ */
+export const detectRig = (
+  boneNames: string[],
+  options: { humanoid?: HumanoidMap | null; overrides?: RigOverrides | null } = {}
+): Rig => {
+  const { humanoid, overrides } = options;
+  let best: { rig: RigConvention; bones: HumanoidMap; score: number } | null = null;
+  for (const table of TABLES) {
+    if (overrides?.convention && table.rig !== (overrides.convention === "readyPlayerMe" ? "mixamo" : overrides.convention)) {
+      continue;
+    }
+    const bones: HumanoidMap = {};
+    let score = 0;
+    for (const name of boneNames) {
+      const key = normalizeBoneName(name).toLowerCase();
+      if (!table.bones.has(key)) continue;
+      score += 1;
+      const role = table.bones.get(key);
+      if (role && !bones[role]) bones[role] = name;
+    }
+    if (bones.hips && (!best || score > best.score)) best = { rig: table.rig, bones, score };
+  }
+
+  let convention: Rig["convention"] = best?.rig ?? "unknown";
+  // Ready Player Me rigs are Mixamo rigs without the prefix
+  if (convention === "mixamo" && !boneNames.some((name) => MIXAMO_PREFIX.test(name))) convention = "readyPlayerMe";
+  const bones: HumanoidMap = { ...best?.bones };
+  if (humanoid) {
+    Object.assign(bones, humanoid);
+    convention = "vrm";
+  }
+  if (overrides?.convention) convention = overrides.convention;
+  for (const [role, name] of Object.entries(overrides?.bones ?? {})) {
+    if (name) bones[role] = name;
+    else delete bones[role];
+  }
+  return { convention, bones };
+};
+
+/**
+ * Humanoid map declared by a VRM file (VRM 0.x "VRM" or 1.0 "VRMC_vrm"
+ * extension), or null for other glTF files.
+ */
+export const vrmHumanoid = (gltf: GLTF): HumanoidMap | null => {
+  const json = gltf.parser.json as any;
+  const nodes: any[] = json.nodes ?? [];
+  const map: HumanoidMap = {};
+  const vrm1 = json.extensions?.VRMC_vrm?.humanoid?.humanBones;
+  const vrm0 = json.extensions?.VRM?.humanoid?.humanBones;
+  if (vrm1) {
+    // 1.0 renamed the thumb segments: metacarpal/proximal/distal
+    const thumb: Record<string, string> = { Metacarpal: "Proximal", Proximal: "Intermediate", Distal: "Distal" };
+    for (const [bone, { node }] of Object.entries<any>(vrm1)) {
+      const role = bone.replace(/(left|right)Thumb(Metacarpal|Proximal|Distal)/, (_, side, seg) => `${side}Thumb${thumb[seg]}`);
+      if (nodes[node]?.name) map[role] = nodes[node].name;
+    }
+  } else if (Array.isArray(vrm0)) {
+    for (const { bone, node } of vrm0) {
+      if (nodes[node]?.name) map[bone] = nodes[node].name;
+    }
+  } else {
+    return null;
+  }
+  // GLTFLoader sanitizes node names the same way when it creates the bones
+  for (const role of Object.keys(map)) {
+    map[role] = THREE.PropertyBinding.sanitizeNodeName(map[role] as string);
+  }
+  return map;
+};
+
+/** Source bone name -> target bone name for every role both rigs have. */
+export const mapBones = (source: Rig, target: Rig) => {
+  const map = new Map<string, string>();
+  for (const role of HUMANOID_BONES) {
+    const from = source.bones[role];
+    const to = target.bones[role];
+    if (from && to) map.set(from, to);
+  }
+  return map;
+};
+
+// Rest-pose alignment. Both retargeting paths assume the source and the target
+// stand in the same rest pose: renamed tracks replay the source's local
+// rotations, and retargetPoseClip puts the source's world rotations on top of the
+// target's bind pose. When the rests differ (an A-pose character and T-pose
+// mocap, or BVH joints whose rest has the arms down) every frame carries that
+// difference, starting with the first one.
+//
+// restCorrections builds an aligned rest for the target: its bind pose with each
+// limb swung onto the direction of the matching source limb. Every bone then gets
+// a constant rotation C from the rest its tracks were computed against (K) to the
+// aligned rest (A), C = K⁻¹·A, and applyRestCorrections rewrites each local
+// rotation q of a bone under parent p as Cp⁻¹·q·C.
+
+/** Rest transform of each bone in its skeleton's space (that of the top bone's parent), by bone name. */
+export type RestPose = Map<string, { position: THREE.Vector3; quaternion: THREE.Quaternion }>;
+
+// The bone whose direction from a role's joint gives that role's aim, in order of
+// preference (the first one both rigs have is used)
+const AIM_ROLES: Record<HumanoidBone, HumanoidBone[]> = {
+  hips: ["spine"],
+  spine: ["chest", "upperChest", "neck"],
+  chest: ["upperChest", "neck"],
+  upperChest: ["neck"],
+  neck: ["head"],
+  ...Object.fromEntries(
+    SIDES.flatMap((side) => [
+      [`${side}Shoulder`, [`${side}UpperArm`]],
+      [`${side}UpperArm`, [`${side}LowerArm`]],
+      [`${side}LowerArm`, [`${side}Hand`]],
+      [`${side}Hand`, [`${side}MiddleProximal`, `${side}IndexProximal`]],
+      [`${side}UpperLeg`, [`${side}LowerLeg`]],
+      [`${side}LowerLeg`, [`${side}Foot`]],
+      [`${side}Foot`, [`${side}Toes`]],
+    ])
+  ),
+};
+
+// Smaller differences are left alone: they come from proportions, not from the pose
+const ALIGN_THRESHOLD = THREE.MathUtils.degToRad(5);
+
+const isBoneOf = (bones: THREE.Bone[], object: THREE.Object3D | null): object is THREE.Bone =>
+  !!object && (object as THREE.Bone).isBone && bones.includes(object as THREE.Bone);
+
+/**
+ * The bind pose of a skinned skeleton (what skeleton.pose() restores) in the
+ * mesh's space, read from the inverse bind matrices without moving any bone.
+ */
+const bindPose = (skeleton: THREE.Skeleton): RestPose => {
+  const pose: RestPose = new Map();
+  const matrix = new THREE.Matrix4();
+  skeleton.bones.forEach((bone, i) => {
+    const position = new THREE.Vector3();
+    const quaternion = new THREE.Quaternion();
+    matrix.copy(skeleton.boneInverses[i]).invert().decompose(position, quaternion, new THREE.Vector3());
+    pose.set(bone.name, { position, quaternion });
+  });
+  return pose;
+};
+
+/** Local bind transform of each bone, as skeleton.pose() would set it. */
+export const bindLocalPose = (skeleton: THREE.Skeleton) => {
+  const pose = new Map<string, { position: THREE.Vector3; quaternion: THREE.Quaternion; scale: THREE.Vector3 }>();
+  const worlds = skeleton.boneInverses.map((inverse) => inverse.clone().invert());
+  const local = new THREE.Matrix4();
+  skeleton.bones.forEach((bone, i) => {
+    const parent = skeleton.bones.indexOf(bone.parent as THREE.Bone);
+    local.copy(worlds[i]);
+    if (parent >= 0) local.premultiply(worlds[parent].clone().invert());
+    const transform = { position: new THREE.Vector3(), quaternion: new THREE.Quaternion(), scale: new THREE.Vector3() };
+    local.decompose(transform.position, transform.quaternion, transform.scale);
+    pose.set(bone.name, transform);
+  });
+  return pose;
+};
+
+// Transforms chained down from the top bones, in the space of their parent: the
+// space skeleton.pose() puts a skinned rig's bind pose in. Without `rotations`
+// every joint keeps the identity rotation (a BVH rest pose).
+const chainPose = (bones: THREE.Bone[], rotations: boolean): RestPose => {
+  const pose: RestPose = new Map();
+  const place = (bone: THREE.Bone, origin: { position: THREE.Vector3; quaternion: THREE.Quaternion }) => {
+    const quaternion = origin.quaternion.clone();
+    if (rotations) quaternion.multiply(bone.quaternion);
+    const position = bone.position.clone().applyQuaternion(origin.quaternion).add(origin.position);
+    const transform = { position, quaternion };
+    pose.set(bone.name, transform);
+    bone.children.forEach((child) => {
+      if (isBoneOf(bones, child)) place(child, transform);
+    });
+  };
+  const top = { position: new THREE.Vector3(), quaternion: new THREE.Quaternion() };
+  bones.forEach((bone) => {
+    if (!isBoneOf(bones, bone.parent)) place(bone, top);
+  });
+  return pose;
+};
+
+/**
+ * Rest pose of the bones under `root` from their current transforms. FBX files
+ * load with their skeleton at rest, so this reads it as long as nothing has
+ * animated the file's own skeleton.
+ */
+export const restPoseOf = (root: THREE.Object3D) => {
+  const bones: THREE.Bone[] = [];
+  root.traverse((object) => {
+    if ((object as THREE.Bone).isBone) bones.push(object as THREE.Bone);
+  });
+  return chainPose(bones, true);
+};
+
+/**
+ * Per-bone corrections (target bone name -> C) that move clips from the source's
+ * rest to the target's bind pose with its limbs aligned to the source, or null
+ * when no limb is off by more than ALIGN_THRESHOLD. `renamed` says the tracks
+ * replay the source's local rotations (retargetClipByName) rather than its world
+ * rotations on the target's bind pose (retargetPoseClip).
+ */
+const restCorrections = (
+  skeleton: THREE.Skeleton,
+  target: Rig,
+  source: Rig,
+  sourceRest: RestPose,
+  renamed: boolean
+) => {
+  const bind = bindPose(skeleton);
+  const roles = new Map(Object.entries(target.bones).map(([role, name]) => [name, role]));
+  const aligned = new Map<string, THREE.Quaternion>();
+  const reference = new Map<string, THREE.Quaternion>();
+  const corrections = new Map<string, THREE.Quaternion>();
+  let swung = 0;
+
+  const visit = (bone: THREE.Bone) => {
+    const rest = bind.get(bone.name)!;
+    const parent = isBoneOf(skeleton.bones, bone.parent) ? bone.parent : null;
+    // Bind rotation relative to the parent
+    const local = parent ? bind.get(parent.name)!.quaternion.clone().invert().multiply(rest.quaternion) : null;
+    const inherit = (world: Map<string, THREE.Quaternion>) =>
+      parent && local ? world.get(parent.name)!.clone().multiply(local) : rest.quaternion.clone();
+
+    const pose = inherit(aligned);
+    const role = roles.get(bone.name);
+    const from = role ? source.bones[role] : undefined;
+    const aim = role ? AIM_ROLES[role]?.find((r) => target.bones[r] && source.bones[r]) : undefined;
+    const sourceJoint = from ? sourceRest.get(from) : undefined;
+    const sourceAim = aim ? sourceRest.get(source.bones[aim]!) : undefined;
+    const targetAim = aim ? bind.get(target.bones[aim]!) : undefined;
+    if (sourceJoint && sourceAim && targetAim) {
+      // The aim as the bone carries it once its parents are aligned
+      const current = targetAim.position
+        .clone()
+        .sub(rest.position)
+        .applyQuaternion(rest.quaternion.clone().invert())
+        .applyQuaternion(pose);
+      const wanted = sourceAim.position.clone().sub(sourceJoint.position);
+      if (current.lengthSq() > 0 && wanted.lengthSq() > 0 && current.angleTo(wanted) > ALIGN_THRESHOLD) {
+        pose.premultiply(new THREE.Quaternion().setFromUnitVectors(current.normalize(), wanted.normalize()));
+        swung += 1;
+      }
+    }
+    aligned.set(bone.name, pose);
+
+    const base = renamed ? (sourceJoint?.quaternion.clone() ?? inherit(reference)) : rest.quaternion.clone();
+    reference.set(bone.name, base);
+    corrections.set(bone.name, base.clone().invert().multiply(pose));
+
+    bone.children.forEach((child) => {
+      if (isBoneOf(skeleton.bones, child)) visit(child);
+    });
+  };
+  skeleton.bones.forEach((bone) => {
+    if (!isBoneOf(skeleton.bones, bone.parent)) visit(bone);
+  });
+  return swung ? corrections : null;
+};
+
+/** Bone and property of "Hips.quaternion" or SkeletonUtils' ".bones[Hips].quaternion". */
+export const trackTarget = (trackName: string) => {
+  try {
+    const parsed = THREE.PropertyBinding.parseTrackName(trackName);
+    const bone = parsed.objectName === "bones" ? String(parsed.objectIndex) : parsed.nodeName;
+    return { bone: bone || "", property: parsed.propertyName as string };
+  } catch {
+    return { bone: "", property: "" };
+  }
+};
+
+// Rewrite the clip's rotations (and the joint offsets under a corrected parent)
+// with the corrections from restCorrections
+const applyRestCorrections = (
+  clip: THREE.AnimationClip,
+  skeleton: THREE.Skeleton,
+  corrections: Map<string, THREE.Quaternion>
+) => {
+  const identity = new THREE.Quaternion();
+  const q = new THREE.Quaternion();
+  const v = new THREE.Vector3();
+  for (const track of clip.tracks) {
+    const { bone: name, property } = trackTarget(track.name);
+    const bone = skeleton.getBoneByName(name);
+    if (!bone) continue;
+    const own = corrections.get(name) ?? identity;
+    const parent = isBoneOf(skeleton.bones, bone.parent) ? corrections.get(bone.parent.name) ?? identity : identity;
+    const parentInverse = parent.clone().invert();
+    const values = track.values;
+    if (property === "quaternion") {
+      if (own.equals(identity) && parent.equals(identity)) continue;
+      for (let i = 0; i < values.length; i += 4) {
+        q.fromArray(values, i).premultiply(parentInverse).multiply(own).toArray(values, i);
+      }
+    } else if (property === "position" && !parent.equals(identity)) {
+      for (let i = 0; i < values.length; i += 3) {
+        v.fromArray(values, i).applyQuaternion(parentInverse).toArray(values, i);
+      }
+    }
+  }
+};
+
+const trackBone = (trackName: string) => trackName.slice(0, trackName.indexOf("."));
+
+/**
+ * Retarget a clip by renaming its tracks, for sources rigged like the target
+ * (Mixamo FBX on Ready Player Me). The source rig is detected from the track
+ * names. Root translation is dropped so clips don't move the model; tracks for
+ * bones the target doesn't have are dropped too. With the source's rest pose
+ * (restPoseOf its FBX) the clip is also aligned to the target's bind pose when
+ * their rests differ. Changes `clip` in place.
+ */
+export const retargetClipByName = (
+  clip: THREE.AnimationClip,
+  target: Rig,
+  targetSkeleton: THREE.Skeleton,
+  sourceRest?: RestPose | null
+) => {
+  const targetBoneNames = targetSkeleton.bones.map((bone) => bone.name);
+  const sourceNames = Array.from(new Set(clip.tracks.map((track) => trackBone(track.name))));
+  const source = detectRig(sourceNames);
+  const mapping = mapBones(source, target);
+  const targetNames = new Set(targetBoneNames);
+  const byPlainName = new Map(targetBoneNames.map((name) => [normalizeBoneName(name), name]));
+  clip.tracks = clip.tracks.filter((track) => {
+    const bone = trackBone(track.name);
+    const property = track.name.slice(bone.length + 1);
+    if (bone === source.bones.hips && property === "position") return false;
+    // Bones without a role (e.g. "HeadTop_End") still match by name
+    const to = mapping.get(bone) ?? (targetNames.has(bone) ? bone : byPlainName.get(normalizeBoneName(bone)));
+    if (!to) return false;
+    track.name = `${to}.${property}`;
+    return true;
+  });
+  const corrections = sourceRest ? restCorrections(targetSkeleton, target, source, sourceRest, true) : null;
+  if (corrections) applyRestCorrections(clip, targetSkeleton, corrections);
+  return { clip, source, aligned: !!corrections };
+};
+
+// A name no bone has: keeps SkeletonUtils from pairing unmapped target bones
+// with unrelated source bones that happen to share their name
+const UNMAPPED = "\u0000unmapped";
+
+/**
+ * Retarget a clip by posing the target after the source skeleton frame by frame,
+ * for sources with their own rest pose (BVH), then align it to the target's
+ * bind pose where the rests differ. Tracks use SkeletonUtils'
+ * ".bones[Name].property" names. The target keeps its current pose.
+ */
+export const retargetPoseClip = (
+  target: THREE.SkinnedMesh,
+  targetRig: Rig,
+  sourceSkeleton: THREE.Skeleton,
+  clip: THREE.AnimationClip
+) => {
+  const source = detectRig(sourceSkeleton.bones.map((bone) => bone.name));
+  const mapping = mapBones(source, targetRig);
+  const names: Record<string, string> = {};
+  for (const bone of target.skeleton.bones) names[bone.name] = UNMAPPED;
+  mapping.forEach((to, from) => {
+    names[to] = from;
+  });
+  // Read before SkeletonUtils runs the clip on the source skeleton
+  const sourceRest = chainPose(sourceSkeleton.bones, false);
+  // SkeletonUtils poses the live skeleton frame by frame; put it back afterwards
+  const live = target.skeleton.bones.map((bone) => ({
+    position: bone.position.clone(),
+    quaternion: bone.quaternion.clone(),
+    scale: bone.scale.clone(),
+  }));
+  const retargeted = SkeletonUtils.retargetClip(target, sourceSkeleton, clip, {
+    preservePosition: false,
+    hip: source.bones.hips ?? "Hips",
+    names,
+  });
+  target.skeleton.bones.forEach((bone, i) => {
+    bone.position.copy(live[i].position);
+    bone.quaternion.copy(live[i].quaternion);
+    bone.scale.copy(live[i].scale);
+  });
+  const corrections = restCorrections(target.skeleton, targetRig, source, sourceRest, false);
+  if (corrections) applyRestCorrections(retargeted, target.skeleton, corrections);
+  return { clip: retargeted, source, aligned: !!corrections };
+};
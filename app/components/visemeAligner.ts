@@ -0,0 +1,216 @@
+// Client-side viseme alignment from the reply text and its decoded audio.
+// Replaces an external Rhubarb run: letters are turned into phonemes with a small
+// set of English spelling rules, and the phonemes are spread over the voiced
+// stretches of the audio found from its energy envelope.
+
+import type { VisemeCue } from "./ThreeCanvas";
+
+type Phoneme = { viseme: string; weight: number };
+
+// Relative durations: vowels carry most of the time, stops are short
+const V = (viseme: string, weight = 1.6): Phoneme => ({ viseme, weight });
+const C = (viseme: string, weight = 0.8): Phoneme => ({ viseme, weight });
+
+// Ordered longest-first so digraphs/trigraphs win over single letters
+const SPELLING_RULES: Array<[string, Phoneme[]]> = [
+  ["tion", [C("viseme_CH"), V("viseme_aa", 1), C("viseme_nn")]],
+  ["sion", [C("viseme_CH"), V("viseme_aa", 1), C("viseme_nn")]],
+  ["igh", [V("viseme_aa"), V("viseme_I", 0.8)]],
+  ["ough", [V("viseme_O")]],
+  ["th", [C("viseme_TH", 1)]],
+  ["sh", [C("viseme_CH", 1)]],
+  ["ch", [C("viseme_CH", 1)]],
+  ["ph", [C("viseme_FF", 1)]],
+  ["wh", [C("viseme_U", 0.7)]],
+  ["ng", [C("viseme_kk")]],
+  ["ck", [C("viseme_kk")]],
+  ["qu", [C("viseme_kk"), C("viseme_U", 0.6)]],
+  ["ee", [V("viseme_I")]],
+  ["ea", [V("viseme_I")]],
+  ["ie", [V("viseme_I")]],
+  ["oo", [V("viseme_U")]],
+  ["ou", [V("viseme_aa", 0.9), V("viseme_U", 0.8)]],
+  ["ow", [V("viseme_aa", 0.9), V("viseme_U", 0.8)]],
+  ["oa", [V("viseme_O")]],
+  ["oi", [V("viseme_O", 1), V("viseme_I", 0.8)]],
+  ["oy", [V("viseme_O", 1), V("viseme_I", 0.8)]],
+  ["ai", [V("viseme_E"), V("viseme_I", 0.6)]],
+  ["ay", [V("viseme_E"), V("viseme_I", 0.6)]],
+  ["au", [V("viseme_O")]],
+  ["aw", [V("viseme_O")]],
+  ["er", [V("viseme_E", 0.9), C("viseme_RR")]],
+  ["ar", [V("viseme_aa"), C("viseme_RR")]],
+  ["or", [V("viseme_O"), C("viseme_RR")]],
+  ["a", [V("viseme_aa")]],
+  ["e", [V("viseme_E", 1.3)]],
+  ["i", [V("viseme_I", 1.3)]],
+  ["o", [V("viseme_O")]],
+  ["u", [V("viseme_U", 1.3)]],
+  ["y", [V("viseme_I", 1)]],
+  ["b", [C("viseme_PP")]],
+  ["p", [C("viseme_PP")]],
+  ["m", [C("viseme_PP", 1)]],
+  ["f", [C("viseme_FF", 1)]],
+  ["v", [C("viseme_FF")]],
+  ["d", [C("viseme_DD", 0.6)]],
+  ["t", [C("viseme_DD", 0.6)]],
+  ["n", [C("viseme_nn")]],
+  ["l", [C("viseme_nn")]],
+  ["k", [C("viseme_kk", 0.7)]],
+  ["c", [C("viseme_kk", 0.7)]],
+  ["g", [C("viseme_kk", 0.7)]],
+  ["q", [C("viseme_kk", 0.7)]],
+  ["x", [C("viseme_kk", 0.6), C("viseme_SS", 0.6)]],
+  ["s", [C("viseme_SS", 1)]],
+  ["z", [C("viseme_SS", 1)]],
+  ["j", [C("viseme_CH")]],
+  ["r", [C("viseme_RR")]],
+  ["w", [C("viseme_U", 0.7)]],
+  ["h", [C("viseme_sil", 0.4)]],
+];
+
+// Jaw opening per viseme, matching the values the Rhubarb map uses for the same shapes
+export const VISEME_JAW: Record<string, number> = {
+  viseme_sil: 0,
+  viseme_PP: 0,
+  viseme_FF: 0.1,
+  viseme_TH: 0.1,
+  viseme_DD: 0.05,
+  viseme_kk: 0.1,
+  viseme_CH: 0.1,
+  viseme_SS: 0.05,
+  viseme_nn: 0.05,
+  viseme_RR: 0.15,
+  viseme_aa: 0.4,
+  viseme_E: 0.3,
+  viseme_I: 0.2,
+  viseme_O: 0.3,
+  viseme_U: 0.15,
+};
+
+const DIGITS = ["zero", "one", "two", "three", "four", "five", "six", "seven", "eight", "nine"];
+
+/** Split text into words, dropping bracketed animation tags and spelling out digits. */
+export const tokenizeWords = (text: string): string[] =>
+  text
+    .replace(/\[[^\]]*\]/g, " ")
+    .toLowerCase()
+    .replace(/\d/g, (d) => ` ${DIGITS[Number(d)]} `)
+    .replace(/[^a-z'\s]/g, " ")
+    .split(/\s+/)
+    .map((w) => w.replace(/'/g, ""))
+    .filter(Boolean);
+
+/** Rule-based grapheme-to-phoneme conversion for a single lower-case word. */
+export const wordToPhonemes = (word: string): Phoneme[] => {
+  // A trailing silent "e" (make, time) lengthens the vowel instead of being spoken
+  const w = word.length > 2 && word.endsWith("e") && !/[aeiou]e$/.test(word) ? word.slice(0, -1) : word;
+  const out: Phoneme[] = [];
+  let i = 0;
+  while (i < w.length) {
+    const rule = SPELLING_RULES.find(([graph]) => w.startsWith(graph, i));
+    if (!rule) {
+      i++;
+      continue;
+    }
+    for (const p of rule[1]) {
+      // Collapse doubled letters ("ll", "ss") into one phoneme
+      const prev = out[out.length - 1];
+      if (prev && prev.viseme === p.viseme && rule[0].length === 1 && w[i - 1] === w[i]) continue;
+      out.push(p);
+    }
+    i += rule[0].length;
+  }
+  return out;
+};
+
+type Region = { start: number; end: number };
+
+/**
+ * Find voiced stretches of the audio from a 10 ms RMS envelope.
+ * Gaps shorter than `minGap` are bridged; blips shorter than `minRegion` dropped.
+ */
+export const findVoicedRegions = (buffer: AudioBuffer, minGap = 0.12, minRegion = 0.05): Region[] => {
+  const frame = Math.max(1, Math.round(buffer.sampleRate * 0.01));
+  const frames = Math.floor(buffer.length / frame);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  const envelope = new Float32Array(frames);
+  for (let f = 0; f < frames; f++) {
+    let sum = 0;
+    for (const data of channels) {
+      for (let i = f * frame; i < (f + 1) * frame; i++) sum += data[i] * data[i];
+    }
+    envelope[f] = Math.sqrt(sum / (frame * channels.length));
+  }
+
+  // Threshold relative to a loud-but-not-peak level so clicks don't dominate
+  const sorted = Array.from(envelope).sort((a, b) => a - b);
+  const loud = sorted[Math.floor(sorted.length * 0.95)] || 0;
+  const threshold = Math.max(loud * 0.1, 1e-4);
+
+  const regions: Region[] = [];
+  let openAt = -1;
+  for (let f = 0; f <= frames; f++) {
+    const voiced = f < frames && envelope[f] >= threshold;
+    if (voiced && openAt < 0) openAt = f;
+    if (!voiced && openAt >= 0) {
+      regions.push({ start: openAt * 0.01, end: f * 0.01 });
+      openAt = -1;
+    }
+  }
+
+  const merged: Region[] = [];
+  for (const r of regions) {
+    const last = merged[merged.length - 1];
+    if (last && r.start - last.end < minGap) last.end = r.end;
+    else merged.push({ ...r });
+  }
+  return merged.filter((r) => r.end - r.start >= minRegion);
+};
+
+/**
+ * Build a `{time, value, jaw}` viseme timeline for `text` spoken in `buffer`.
+ * Phonemes are laid out over the voiced audio in proportion to their weights, so
+ * pauses in the recording become closed-mouth gaps in the timeline.
+ */
+export const alignVisemes = (text: string, buffer: AudioBuffer): VisemeCue[] => {
+  const phonemes: Phoneme[] = [];
+  for (const word of tokenizeWords(text)) {
+    phonemes.push(...wordToPhonemes(word));
+  }
+  const regions = findVoicedRegions(buffer);
+  if (phonemes.length === 0 || regions.length === 0) return [];
+
+  const voicedTotal = regions.reduce((sum, r) => sum + (r.end - r.start), 0);
+  const weightTotal = phonemes.reduce((sum, p) => sum + p.weight, 0);
+
+  // Map a position on the concatenated voiced timeline back to real audio time
+  const toAudioTime = (voicedTime: number) => {
+    let acc = 0;
+    for (const r of regions) {
+      const len = r.end - r.start;
+      if (voicedTime <= acc + len) return r.start + (voicedTime - acc);
+      acc += len;
+    }
+    return regions[regions.length - 1].end;
+  };
+  // Region index containing a given real time, used to insert closures at gaps
+  const regionOf = (time: number) => regions.findIndex((r) => time >= r.start - 1e-6 && time <= r.end + 1e-6);
+
+  const cues: VisemeCue[] = [];
+  if (regions[0].start > 0) cues.push({ time: 0, value: "viseme_sil", jaw: 0 });
+  let cursor = 0;
+  let lastRegion = 0;
+  for (const p of phonemes) {
+    const time = toAudioTime((cursor / weightTotal) * voicedTotal);
+    const region = regionOf(time);
+    if (region > lastRegion) {
+      cues.push({ time: regions[lastRegion].end, value: "viseme_sil", jaw: 0 });
+      lastRegion = region;
+    }
+    cues.push({ time, value: p.viseme, jaw: VISEME_JAW[p.viseme] ?? 0.1 });
+    cursor += p.weight;
+  }
+  cues.push({ time: regions[regions.length - 1].end, value: "viseme_sil", jaw: 0 });
+  return cues;
+};
@@ -0,0 +1,234 @@
+// Parsers for the viseme formats our TTS vendors emit, all converted into the
+// canvas's `{time, value, jaw}` timeline through the character's viseme profile.
+//
+//   rhubarb  {mouthCues: [{start, end, value: "A".."X"}]} or the bare cue array (seconds)
+//   azure    [{visemeId: 0..21, audioOffset: ms}]          (Azure Speech VisemeReceived)
+//   polly    [{time: ms, type: "viseme", value: "p"}]      (Polly speech marks, array or NDJSON)
+//   arkit    [{time: s, blendshapes: {jawOpen: 0.4, ...}}]  (ARKit blendshape frames), or an
+//            Audio2Face export {facsNames, weightMat, exportFps}
+//   timeline [{time: s, value: "viseme_aa", jaw}]          (already converted)
+
+import type { VisemeCue } from "./ThreeCanvas";
+import {
+  DEFAULT_VISEME_PROFILE,
+  canonicalViseme,
+  rhubarbCuesToVisemes,
+  type VisemeMapEntry,
+  type VisemeProfile,
+} from "./visemeProfiles";
+
+export const VISEME_FORMATS = ["rhubarb", "azure", "polly", "arkit", "timeline"] as const;
+export type VisemeFormat = (typeof VISEME_FORMATS)[number];
+
+const isVisemeFormat = (format: unknown): format is VisemeFormat =>
+  typeof format === "string" && (VISEME_FORMATS as readonly string[]).includes(format);
+
+export type RhubarbCue = { start: number; end: number; value: string };
+export type AzureVisemeEvent = {
+  visemeId?: number;
+  VisemeId?: number;
+  // Milliseconds from the start of the audio
+  audioOffset?: number;
+  AudioOffset?: number;
+  offset?: number;
+  // Raw Speech SDK offsets are in 100 ns ticks
+  audioOffsetTicks?: number;
+};
+export type PollySpeechMark = { time: number; type: string; value: string };
+// Seconds from the start of the audio; weights 0-1 by ARKit blendshape name
+export type ArkitFrame = { time: number; blendshapes: Record<string, number> };
+export type Audio2FaceExport = { facsNames: string[]; weightMat: number[][]; exportFps?: number };
+
+// Anything a backend may put in a `visemes` field
+export type RawVisemePayload =
+  | RhubarbCue[]
+  | { mouthCues: RhubarbCue[] }
+  | AzureVisemeEvent[]
+  | PollySpeechMark[]
+  | ArkitFrame[]
+  | Audio2FaceExport
+  | VisemeCue[]
+  | string;
+
+// Point events (Azure/Polly) have no end; hold the final shape this long before closing
+const TRAILING_HOLD = 0.15;
+// ARKit frames whose strongest mouth blendshape stays below this read as silence
+const ARKIT_MIN_WEIGHT = 0.15;
+// Audio2Face exports without a frame rate
+const AUDIO2FACE_FPS = 30;
+
+const isObj = (v: unknown): v is Record<string, unknown> => !!v && typeof v === "object";
+
+/**
+ * Parse Polly's newline-delimited speech marks; JSON strings of any other format
+ * pass through. Lines that aren't JSON are skipped with a warning.
+ */
+const parseTextPayload = (text: string): unknown => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+  try {
+    return JSON.parse(trimmed);
+  } catch {
+    const marks: unknown[] = [];
+    let skipped = 0;
+    for (const line of trimmed.split(/\r?\n/)) {
+      if (!line.trim()) continue;
+      try {
+        marks.push(JSON.parse(line));
+      } catch {
+        skipped += 1;
+      }
+    }
+    if (skipped) console.warn(`visemeFormats: skipped ${skipped} malformed line(s) in viseme payload`);
+    return marks;
+  }
+};
+
+// Fixture files and some backends wrap the events: {metadata, visemes: [...]}
+const unwrap = (payload: unknown): unknown => {
+  const data = typeof payload === "string" ? parseTextPayload(payload) : payload;
+  if (isObj(data) && !Array.isArray(data) && Array.isArray(data.visemes)) return data.visemes;
+  return data;
+};
+
+/** Work out which format a payload is in from its shape. Returns null when unrecognised. */
+export const detectVisemeFormat = (payload: unknown): VisemeFormat | null => {
+  const data = unwrap(payload);
+  if (isObj(data) && Array.isArray((data as any).mouthCues)) return "rhubarb";
+  if (isObj(data) && Array.isArray((data as any).facsNames) && Array.isArray((data as any).weightMat)) return "arkit";
+  if (!Array.isArray(data) || data.length === 0) return null;
+  const first = data.find(isObj);
+  if (!first) return null;
+  if ("visemeId" in first || "VisemeId" in first) return "azure";
+  if (isObj(first.blendshapes)) return "arkit";
+  if (data.some((m) => isObj(m) && m.type === "viseme")) return "polly";
+  if ("start" in first && "end" in first) return "rhubarb";
+  if ("time" in first && typeof first.value === "string") return "timeline";
+  return null;
+};
+
+// Turn point events into a timeline, closing the mouth after the last one
+const pointsToTimeline = (points: Array<{ time: number; entry: VisemeMapEntry }>): VisemeCue[] => {
+  const timeline = points
+    .sort((a, b) => a.time - b.time)
+    .map(({ time, entry }) => ({ time, value: entry.viseme, jaw: entry.jaw }));
+  const last = timeline[timeline.length - 1];
+  if (last && last.value !== "viseme_sil") {
+    timeline.push({ time: last.time + TRAILING_HOLD, value: "viseme_sil", jaw: 0 });
+  }
+  return timeline;
+};
+
+export const parseAzureVisemes = (
+  events: AzureVisemeEvent[],
+  profile: VisemeProfile = DEFAULT_VISEME_PROFILE
+): VisemeCue[] => {
+  const map = profile.sources.azure;
+  return pointsToTimeline(
+    events.map((e) => {
+      const id = e.visemeId ?? e.VisemeId ?? 0;
+      const ms =
+        e.audioOffsetTicks !== undefined
+          ? e.audioOffsetTicks / 10000
+          : e.audioOffset ?? e.AudioOffset ?? e.offset ?? 0;
+      return { time: ms / 1000, entry: map[id] || map[0] };
+    })
+  );
+};
+
+export const parsePollyVisemes = (
+  marks: PollySpeechMark[] | string,
+  profile: VisemeProfile = DEFAULT_VISEME_PROFILE
+): VisemeCue[] => {
+  const list = (typeof marks === "string" ? parseTextPayload(marks) : marks) as PollySpeechMark[];
+  const map = profile.sources.polly;
+  return pointsToTimeline(
+    list
+      // speech marks files interleave word/sentence marks with visemes
+      .filter((m) => m && m.type === "viseme")
+      .map((m) => ({ time: m.time / 1000, entry: map[m.value] || map.sil }))
+  );
+};
+
+// Audio2Face exports one row of weights per frame, in facsNames order
+const audio2FaceFrames = ({ facsNames, weightMat, exportFps }: Audio2FaceExport): ArkitFrame[] =>
+  weightMat.map((row, i) => ({
+    time: i / (exportFps || AUDIO2FACE_FPS),
+    blendshapes: Object.fromEntries(facsNames.map((name, k) => [name, row[k] ?? 0])),
+  }));
+
+export const parseArkitFrames = (
+  frames: ArkitFrame[] | Audio2FaceExport,
+  profile: VisemeProfile = DEFAULT_VISEME_PROFILE
+): VisemeCue[] => {
+  const list = (Array.isArray(frames) ? [...frames] : audio2FaceFrames(frames)).sort((a, b) => a.time - b.time);
+  const map = profile.sources.arkit;
+  const timeline: VisemeCue[] = [];
+  for (const frame of list) {
+    let entry: VisemeMapEntry | null = null;
+    let strongest = ARKIT_MIN_WEIGHT;
+    for (const [name, weight] of Object.entries(frame.blendshapes ?? {})) {
+      if (map[name] && weight >= strongest) {
+        entry = map[name];
+        strongest = weight;
+      }
+    }
+    const viseme = entry?.viseme ?? "viseme_sil";
+    const jaw = frame.blendshapes?.jawOpen ?? entry?.jaw ?? 0;
+    // Frames come at capture rate; keep one cue per change of shape or jaw
+    const last = timeline[timeline.length - 1];
+    if (last && last.value === viseme && Math.abs(last.jaw - jaw) < 0.05) continue;
+    timeline.push({ time: frame.time, value: viseme, jaw });
+  }
+  const last = timeline[timeline.length - 1];
+  if (last && last.value !== "viseme_sil") {
+    timeline.push({ time: list[list.length - 1].time + TRAILING_HOLD, value: "viseme_sil", jaw: 0 });
+  }
+  return timeline;
+};
+
+/**
+ * Convert any supported viseme payload into a canvas timeline.
+ * `format` overrides detection when the backend names a known format (e.g. a
+ * `viseme_format` field); unknown names are ignored.
+ */
+export const parseVisemePayload = (
+  payload: unknown,
+  profile: VisemeProfile = DEFAULT_VISEME_PROFILE,
+  format?: VisemeFormat | string | null
+): VisemeCue[] => {
+  if (payload === null || payload === undefined) return [];
+  // A payload that doesn't hold the shape it claims costs the reply its cues, not the reply
+  try {
+    const data = unwrap(payload);
+    if (format && !isVisemeFormat(format)) {
+      console.warn(`visemeFormats: unknown viseme format "${format}", detecting it from the payload`);
+    }
+    const kind = isVisemeFormat(format) ? format : detectVisemeFormat(data);
+    switch (kind) {
+      case "rhubarb": {
+        const cues = isObj(data) && !Array.isArray(data) ? (data as any).mouthCues : data;
+        return rhubarbCuesToVisemes(cues as RhubarbCue[], profile);
+      }
+      case "azure":
+        return parseAzureVisemes(data as AzureVisemeEvent[], profile);
+      case "polly":
+        return parsePollyVisemes(data as PollySpeechMark[], profile);
+      case "arkit":
+        return parseArkitFrames(data as ArkitFrame[] | Audio2FaceExport, profile);
+      case "timeline":
+        return (data as VisemeCue[]).map((c) => ({
+          time: c.time,
+          value: canonicalViseme(c.value),
+          jaw: c.jaw ?? 0,
+        }));
+      default:
+        if (Array.isArray(data) && data.length === 0) return [];
+        console.warn("visemeFormats: unrecognised viseme payload", data);
+        return [];
+    }
+  } catch (err) {
+    console.warn("visemeFormats: could not read viseme payload", err);
+    return [];
+  }
+};
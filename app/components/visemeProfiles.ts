@@ -0,0 +1,300 @@
+// Viseme profiles: how a character rig's face is driven.
+// Speech timelines use the 15 Oculus visemes ("viseme_sil" ... "viseme_U") as
+// the canonical mouth shapes. A profile says which source viseme sets map onto
+// those shapes (and how far the jaw opens for each), and which of the rig's
+// morph targets, with what weights, realise each canonical shape.
+
+import * as THREE from "three";
+import type { VisemeCue } from "./ThreeCanvas";
+
+export const OCULUS_VISEMES = [
+  "viseme_sil",
+  "viseme_PP",
+  "viseme_FF",
+  "viseme_TH",
+  "viseme_DD",
+  "viseme_kk",
+  "viseme_CH",
+  "viseme_SS",
+  "viseme_nn",
+  "viseme_RR",
+  "viseme_aa",
+  "viseme_E",
+  "viseme_I",
+  "viseme_O",
+  "viseme_U",
+] as const;
+
+export type OculusViseme = (typeof OCULUS_VISEMES)[number];
+
+export type RhubarbVisemeKey = "X" | "A" | "B" | "C" | "D" | "E" | "F" | "G" | "H";
+
+// A source symbol resolved to a canonical shape and its jaw opening
+export type VisemeMapEntry = { viseme: OculusViseme; jaw: number };
+
+export type MorphWeight = { morph: string; weight: number };
+
+export interface VisemeProfile {
+  id: string;
+  name: string;
+  // Meshes carrying the face morphs, tried in order
+  faceMeshNames: string[];
+  // Morphs realising each canonical viseme; missing entries leave the mouth to the jaw
+  targets: Partial<Record<OculusViseme, MorphWeight[]>>;
+  // Morphs opened by the timeline's jaw value; the first one present on the mesh is used
+  jaw: MorphWeight[];
+  // Source viseme sets mapped onto canonical shapes
+  sources: {
+    rhubarb: Record<RhubarbVisemeKey, VisemeMapEntry>;
+    // Azure Speech viseme IDs 0-21
+    azure: Record<number, VisemeMapEntry>;
+    // Amazon Polly viseme symbols from speech marks
+    polly: Record<string, VisemeMapEntry>;
+    // ARKit blendshape names; each frame takes the shape of its strongest mapped blendshape
+    arkit: Record<string, VisemeMapEntry>;
+  };
+}
+
+// Rhubarb's mouth shapes A-H plus X (rest), tuned for Ready Player Me heads
+export const RHUBARB_TO_OCULUS: Record<RhubarbVisemeKey, VisemeMapEntry> = {
+  X: { viseme: "viseme_sil", jaw: 0 },
+  A: { viseme: "viseme_aa", jaw: 0.4 }, // Open jaw for "ah"
+  B: { viseme: "viseme_PP", jaw: 0.2 }, // Closed for "b, p, m"
+  C: { viseme: "viseme_E", jaw: 0.4 }, // Slightly open for "ee, i"
+  D: { viseme: "viseme_DD", jaw: 0.02 },
+  E: { viseme: "viseme_E", jaw: 0.3 }, // Open for "eh"
+  F: { viseme: "viseme_FF", jaw: 0.1 },
+  G: { viseme: "viseme_kk", jaw: 0.1 },
+  H: { viseme: "viseme_O", jaw: 0.3 }, // Very open for "oh"
+};
+
+// Azure Speech SDK viseme IDs (IPA groups per the Azure docs)
+export const AZURE_TO_OCULUS: Record<number, VisemeMapEntry> = {
+  0: { viseme: "viseme_sil", jaw: 0 }, // silence
+  1: { viseme: "viseme_aa", jaw: 0.3 }, // æ ə ʌ
+  2: { viseme: "viseme_aa", jaw: 0.4 }, // ɑ
+  3: { viseme: "viseme_O", jaw: 0.3 }, // ɔ
+  4: { viseme: "viseme_E", jaw: 0.3 }, // ɛ ʊ
+  5: { viseme: "viseme_RR", jaw: 0.2 }, // ɝ
+  6: { viseme: "viseme_I", jaw: 0.2 }, // j i ɪ
+  7: { viseme: "viseme_U", jaw: 0.15 }, // w u
+  8: { viseme: "viseme_O", jaw: 0.3 }, // o
+  9: { viseme: "viseme_aa", jaw: 0.4 }, // aʊ
+  10: { viseme: "viseme_O", jaw: 0.3 }, // ɔɪ
+  11: { viseme: "viseme_aa", jaw: 0.4 }, // aɪ
+  12: { viseme: "viseme_kk", jaw: 0.1 }, // h
+  13: { viseme: "viseme_RR", jaw: 0.15 }, // ɹ
+  14: { viseme: "viseme_nn", jaw: 0.05 }, // l
+  15: { viseme: "viseme_SS", jaw: 0.05 }, // s z
+  16: { viseme: "viseme_CH", jaw: 0.1 }, // ʃ tʃ dʒ ʒ
+  17: { viseme: "viseme_TH", jaw: 0.1 }, // ð
+  18: { viseme: "viseme_FF", jaw: 0.1 }, // f v
+  19: { viseme: "viseme_DD", jaw: 0.05 }, // d t n θ
+  20: { viseme: "viseme_kk", jaw: 0.1 }, // k g ŋ
+  21: { viseme: "viseme_PP", jaw: 0 }, // p b m
+};
+
+// Amazon Polly speech-mark viseme symbols
+export const POLLY_TO_OCULUS: Record<string, VisemeMapEntry> = {
+  sil: { viseme: "viseme_sil", jaw: 0 },
+  p: { viseme: "viseme_PP", jaw: 0 },
+  t: { viseme: "viseme_DD", jaw: 0.05 },
+  S: { viseme: "viseme_CH", jaw: 0.1 },
+  T: { viseme: "viseme_TH", jaw: 0.1 },
+  f: { viseme: "viseme_FF", jaw: 0.1 },
+  k: { viseme: "viseme_kk", jaw: 0.1 },
+  i: { viseme: "viseme_I", jaw: 0.2 },
+  r: { viseme: "viseme_RR", jaw: 0.15 },
+  s: { viseme: "viseme_SS", jaw: 0.05 },
+  u: { viseme: "viseme_U", jaw: 0.15 },
+  "@": { viseme: "viseme_aa", jaw: 0.25 },
+  a: { viseme: "viseme_aa", jaw: 0.4 },
+  e: { viseme: "viseme_E", jaw: 0.3 },
+  E: { viseme: "viseme_E", jaw: 0.35 },
+  o: { viseme: "viseme_O", jaw: 0.3 },
+  O: { viseme: "viseme_O", jaw: 0.35 },
+};
+
+// ARKit mouth blendshapes (face capture, Audio2Face exports). `jaw` is only used
+// when a frame carries no jawOpen weight of its own.
+export const ARKIT_TO_OCULUS: Record<string, VisemeMapEntry> = {
+  mouthClose: { viseme: "viseme_PP", jaw: 0 },
+  mouthPressLeft: { viseme: "viseme_PP", jaw: 0 },
+  mouthPressRight: { viseme: "viseme_PP", jaw: 0 },
+  mouthRollLower: { viseme: "viseme_FF", jaw: 0.1 },
+  mouthRollUpper: { viseme: "viseme_FF", jaw: 0.1 },
+  tongueOut: { viseme: "viseme_TH", jaw: 0.1 },
+  mouthShrugUpper: { viseme: "viseme_DD", jaw: 0.05 },
+  mouthStretchLeft: { viseme: "viseme_E", jaw: 0.3 },
+  mouthStretchRight: { viseme: "viseme_E", jaw: 0.3 },
+  mouthSmileLeft: { viseme: "viseme_I", jaw: 0.2 },
+  mouthSmileRight: { viseme: "viseme_I", jaw: 0.2 },
+  mouthFunnel: { viseme: "viseme_O", jaw: 0.3 },
+  mouthPucker: { viseme: "viseme_U", jaw: 0.15 },
+  mouthLowerDownLeft: { viseme: "viseme_aa", jaw: 0.4 },
+  mouthLowerDownRight: { viseme: "viseme_aa", jaw: 0.4 },
+  jawOpen: { viseme: "viseme_aa", jaw: 0.4 },
+};
+
+const DEFAULT_SOURCES: VisemeProfile["sources"] = {
+  rhubarb: RHUBARB_TO_OCULUS,
+  azure: AZURE_TO_OCULUS,
+  polly: POLLY_TO_OCULUS,
+  arkit: ARKIT_TO_OCULUS,
+};
+
+// Identity mapping for rigs that ship the Oculus viseme morphs directly
+const identityTargets = () =>
+  Object.fromEntries(OCULUS_VISEMES.map((v) => [v, [{ morph: v, weight: 1 }]])) as VisemeProfile["targets"];
+
+export const readyPlayerMeProfile: VisemeProfile = {
+  id: "readyPlayerMe",
+  name: "Ready Player Me (Oculus visemes)",
+  faceMeshNames: ["Wolf3D_Head", "Wolf3D_Avatar", "head"],
+  targets: identityTargets(),
+  jaw: [
+    { morph: "jawOpen", weight: 1 },
+    { morph: "mouthOpen", weight: 1 },
+  ],
+  sources: DEFAULT_SOURCES,
+};
+
+// Rigs that only carry the 52 ARKit blendshapes: approximate each viseme with them
+export const arkitProfile: VisemeProfile = {
+  id: "arkit",
+  name: "ARKit blendshapes",
+  faceMeshNames: ["head", "Head", "Face", "face", "Wolf3D_Head", "Wolf3D_Avatar"],
+  targets: {
+    viseme_PP: [
+      { morph: "mouthClose", weight: 0.6 },
+      { morph: "mouthPressLeft", weight: 0.5 },
+      { morph: "mouthPressRight", weight: 0.5 },
+    ],
+    viseme_FF: [
+      { morph: "mouthRollLower", weight: 0.6 },
+      { morph: "mouthUpperUpLeft", weight: 0.3 },
+      { morph: "mouthUpperUpRight", weight: 0.3 },
+    ],
+    viseme_TH: [{ morph: "tongueOut", weight: 0.4 }],
+    viseme_DD: [{ morph: "mouthShrugUpper", weight: 0.3 }],
+    viseme_kk: [{ morph: "mouthStretchLeft", weight: 0.2 }, { morph: "mouthStretchRight", weight: 0.2 }],
+    viseme_CH: [{ morph: "mouthFunnel", weight: 0.5 }, { morph: "mouthShrugUpper", weight: 0.3 }],
+    viseme_SS: [{ morph: "mouthStretchLeft", weight: 0.4 }, { morph: "mouthStretchRight", weight: 0.4 }],
+    viseme_nn: [{ morph: "mouthShrugUpper", weight: 0.2 }],
+    viseme_RR: [{ morph: "mouthFunnel", weight: 0.3 }, { morph: "mouthPucker", weight: 0.3 }],
+    viseme_aa: [{ morph: "mouthLowerDownLeft", weight: 0.3 }, { morph: "mouthLowerDownRight", weight: 0.3 }],
+    viseme_E: [{ morph: "mouthStretchLeft", weight: 0.5 }, { morph: "mouthStretchRight", weight: 0.5 }],
+    viseme_I: [{ morph: "mouthSmileLeft", weight: 0.4 }, { morph: "mouthSmileRight", weight: 0.4 }],
+    viseme_O: [{ morph: "mouthFunnel", weight: 0.7 }],
+    viseme_U: [{ morph: "mouthPucker", weight: 0.8 }],
+  },
+  jaw: [{ morph: "jawOpen", weight: 1 }],
+  sources: DEFAULT_SOURCES,
+};
+
+// Last resort for rigs with a single open/close morph
+export const jawOnlyProfile: VisemeProfile = {
+  id: "jawOnly",
+  name: "Jaw only",
+  faceMeshNames: ["head", "Head", "Face", "face"],
+  targets: {},
+  jaw: [
+    { morph: "mouthOpen", weight: 1 },
+    { morph: "jawOpen", weight: 1 },
+  ],
+  sources: DEFAULT_SOURCES,
+};
+
+const registry = new Map<string, VisemeProfile>(
+  [readyPlayerMeProfile, arkitProfile, jawOnlyProfile].map((p) => [p.id, p])
+);
+
+export const DEFAULT_VISEME_PROFILE = readyPlayerMeProfile;
+
+/** Add or replace a profile so characters can refer to it by id. */
+export const registerVisemeProfile = (profile: VisemeProfile) => {
+  registry.set(profile.id, profile);
+};
+
+export const listVisemeProfiles = () => Array.from(registry.values());
+
+/** Resolve a profile id (or pass-through a profile object); unknown ids fall back to the default. */
+export const getVisemeProfile = (profile?: string | VisemeProfile | null): VisemeProfile => {
+  if (!profile) return DEFAULT_VISEME_PROFILE;
+  if (typeof profile !== "string") return profile;
+  const found = registry.get(profile);
+  if (!found) console.warn(`visemeProfiles: unknown profile "${profile}", using ${DEFAULT_VISEME_PROFILE.id}`);
+  return found || DEFAULT_VISEME_PROFILE;
+};
+
+/** Timeline values may be "viseme_aa" or bare "aa". */
+export const canonicalViseme = (value: string) => (value.startsWith("viseme_") ? value : `viseme_${value}`);
+
+/**
+ * Convert Rhubarb mouth cues into the canvas timeline using the profile's jaw values,
+ * closing the mouth at the last cue's end.
+ */
+export const rhubarbCuesToVisemes = (
+  cues: Array<{ start: number; end: number; value: string }>,
+  profile: VisemeProfile = DEFAULT_VISEME_PROFILE
+): VisemeCue[] => {
+  const map = profile.sources.rhubarb;
+  const timeline: VisemeCue[] = cues.map((cue) => {
+    const entry = map[cue.value as RhubarbVisemeKey] || map.X;
+    return { time: cue.start, value: entry.viseme, jaw: entry.jaw };
+  });
+  if (cues.length > 0) {
+    timeline.push({ time: cues[cues.length - 1].end, value: "viseme_sil", jaw: 0 });
+  }
+  return timeline;
+};
+
+/** Every morph the profile may write, so stale weights can be relaxed to zero. */
+export const profileMorphs = (profile: VisemeProfile): string[] => {
+  const names = new Set<string>();
+  for (const list of Object.values(profile.targets)) list?.forEach((t) => names.add(t.morph));
+  return Array.from(names);
+};
+
+/** Expand canonical viseme weights into morph-target weights for the rig. */
+export const resolveMorphWeights = (
+  profile: VisemeProfile,
+  visemeWeights: Record<string, number>
+): Record<string, number> => {
+  const out: Record<string, number> = {};
+  for (const value in visemeWeights) {
+    const targets = profile.targets[canonicalViseme(value) as OculusViseme];
+    if (!targets) continue;
+    for (const { morph, weight } of targets) {
+      out[morph] = Math.min(1, (out[morph] || 0) + visemeWeights[value] * weight);
+    }
+  }
+  return out;
+};
+
+/**
+ * Find the mesh carrying the face morphs: the profile's named meshes first, then
+ * whichever morph-bearing mesh matches most of the profile's target morphs.
+ */
+export const findFaceMesh = (root: THREE.Object3D, profile: VisemeProfile): THREE.Mesh | null => {
+  const candidates: THREE.Mesh[] = [];
+  root.traverse((o: any) => {
+    if (o.isMesh && o.morphTargetDictionary) candidates.push(o);
+  });
+  for (const name of profile.faceMeshNames) {
+    const named = candidates.find((m) => m.name === name);
+    if (named) return named;
+  }
+  const wanted = [...profileMorphs(profile), ...profile.jaw.map((j) => j.morph)];
+  let best: THREE.Mesh | null = null;
+  let bestScore = 0;
+  for (const mesh of candidates) {
+    const dict = mesh.morphTargetDictionary!;
+    const score = wanted.filter((m) => dict[m] !== undefined).length;
+    if (score > bestScore) {
+      best = mesh;
+      bestScore = score;
+    }
+  }
+  return best;
+};
@@ -0,0 +1,13 @@
+// Mock of GET /generated_bvh/<file>: serves the bundled standing.bvh for any .bvh name.
+
+import { loadMotion } from "../../api/_mock/responder";
+
+export async function GET(_request: Request, { params }: { params: Promise<{ file: string }> }) {
+  const { file } = await params;
+  if (!/^[\w.-]+\.bvh$/i.test(file)) {
+    return new Response("Not found", { status: 404 });
+  }
+  return new Response(await loadMotion(), {
+    headers: { "Content-Type": "text/plain; charset=utf-8" },
+  });
+}
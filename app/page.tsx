@@ -1,158 +1,406 @@
 'use client';
 
-import { useState, useRef } from 'react';
+import { useState, useRef, useEffect, useCallback, type ChangeEvent, type KeyboardEvent } from 'react';
 import styles from './page.module.css';
-import ThreeCanvas, { type ThreeCanvasHandles } from './components/ThreeCanvas';
-
-// This map translates Rhubarb's output to your specific model's viseme names.
-export type RhubarbVisemeKey = 'X' | 'A' | 'B' | 'C' | 'D' | 'E' | 'F' | 'G' | 'H';
-
-// You will also need a type for this new map shape
-type VisemeMapEntry = { viseme: string; jaw: number };
-
-const rhubarbToVisemeMap: Record<RhubarbVisemeKey, VisemeMapEntry> = {
-  'X': { viseme: 'viseme_sil', jaw: 0 },
-  'A': { viseme: 'viseme_aa', jaw: 0.4 }, // Open jaw for "ah"
-  'B': { viseme: 'viseme_PP', jaw: 0.2 },   // Closed for "b, p, m"
-  'C': { viseme: 'viseme_E',  jaw: 0.4 }, // Slightly open for "ee, i"
-  'D': { viseme: 'viseme_DD', jaw: 0.02 },
-  'E': { viseme: 'viseme_E',  jaw: 0.3 }, // Open for "eh"
-  'F': { viseme: 'viseme_FF', jaw: 0.1 },
-  'G': { viseme: 'viseme_kk', jaw: 0.1 },
-  'H': { viseme: 'viseme_O',  jaw: 0.3 }, // Very open for "oh"
-};
+import ThreeCanvas, { type Emotion, type ThreeCanvasHandles, type VisemeCue } from './components/ThreeCanvas';
+import { companionClient, isCancellation, normalizeEmotion } from './components/CompanionClient';
+import type { CompanionStreamEvent } from './components/companionStream';
+import {
+  addMessage,
+  createConversation,
+  deleteConversation,
+  listConversations,
+  loadMessages,
+  renameConversation,
+  searchConversations,
+  titleFromText,
+  type ChatRole,
+  type ReplyPerformance,
+  type StoredConversation,
+} from './components/conversationStore';
+import { getVisemeProfile } from './components/visemeProfiles';
+import { loadCharacterManifest, type CharacterDefinition } from './components/characterManifest';
+import { parseVisemePayload } from './components/visemeFormats';
+import {
+  BUILTIN_BACKGROUNDS,
+  DEFAULT_BACKGROUND,
+  customBackground,
+  findBackground,
+  type BackgroundDescriptor,
+} from './components/backgrounds';
+import { deleteBackground, listBackgrounds, saveBackground, type StoredBackground } from './components/backgroundStore';
 
-const BACKEND_URL = process.env.NEXT_PUBLIC_BACKEND_URL;
-
-// Add gender to each character so we can pick the correct idle-pack dynamically.
-type Gender = 'male' | 'female';
-
-const characters: Record<string, {
-  name: string;
-  modelUrl: string;
-  idleAnimationUrl?: string; // kept only as a fallback if needed
-  typingAnimationUrl?: string;
-  talkingAnimationUrl1?: string;
-  talkingAnimationUrl2?: string;
-  gender?: Gender;
-}> = {
-  harry: {
-    name: 'Harry (The Potter)',
-    modelUrl: '/models/Harry.glb',
-    typingAnimationUrl: '/idleanimations/waiting.fbx',
-    talkingAnimationUrl1: '/talkinganimations/Talking2.fbx',
-    talkingAnimationUrl2: '/talkinganimations/Talking2.fbx',
-    gender: 'male',
-  },
-  Teacher: {
-    name: 'Teacher',
-    modelUrl: '/models/Joy.glb',
-    typingAnimationUrl: '/idleanimations/waiting.fbx',
-    talkingAnimationUrl1: '/talkinganimations/Talking2.fbx',
-    talkingAnimationUrl2: '/talkinganimations/Talking2.fbx',
-    gender: 'female',
-  },
-  Dancer: {
-    name: 'Dancer',
-    modelUrl: '/models/Surf.glb',
-    typingAnimationUrl: '/idleanimations/waiting.fbx',
-    talkingAnimationUrl1: '/talkinganimations/Talking2.fbx',
-    talkingAnimationUrl2: '/talkinganimations/Talking2.fbx',
-    gender: 'female',
-  },
-  Police: {
-    name: 'Police',
-    modelUrl: '/models/policev2.glb',
-    typingAnimationUrl: '/idleanimations/waiting.fbx',
-    talkingAnimationUrl1: '/talkinganimations/Talking2.fbx',
-    talkingAnimationUrl2: '/talkinganimations/Talking2.fbx',
-    gender: 'male',
-  },
-  chef: {
-    name: 'chef',
-    modelUrl: '/models/chef.glb',
-    typingAnimationUrl: '/idleanimations/waiting.fbx',
-    talkingAnimationUrl1: '/talkinganimations/Talking2.fbx',
-    talkingAnimationUrl2: '/talkinganimations/Talking2.fbx',
-  },
+// Every search term must appear in the persona's name, tags or description.
+// Gender matches by prefix so "male" doesn't also find "female".
+const personaMatches = (c: CharacterDefinition, query: string) => {
+  const text = [c.id, c.name, ...c.tags, c.description].join(' ').toLowerCase();
+  return query
+    .toLowerCase()
+    .split(/\s+/)
+    .filter(Boolean)
+    .every((term) => text.includes(term) || !!c.gender?.startsWith(term));
 };
 
-const backgrounds = {
-  studio: { name: 'Studio', url: null, color: 0xffffff },
-  forest: { name: 'Forest', url: '/textures/forest/forestbg.jpg' },
-  city: { name: 'City at Night', url: '/textures/city/cyberbg.jpg' },
+// Strip bracketed animation tags from text shown in the message card
+const toVisibleText = (text: string) => text.replace(/\[[^\]]*\]/g, '').replace(/\s+/g, ' ').trim();
+
+// `transient` messages (errors, dev-tool notes) are shown but never stored or sent as context.
+// Assistant replies that were spoken keep their `performance` so they can be replayed.
+type ChatMessage = {
+  key: string;
+  role: ChatRole;
+  text: string;
+  createdAt: number;
+  transient?: boolean;
+  performance?: ReplyPerformance;
 };
 
-type CharacterKey = keyof typeof characters;
-type BackgroundKey = keyof typeof backgrounds;
-type RawVisemeCue = { start: number; end: number; value: RhubarbVisemeKey };
+let messageSeq = 0;
+const nextMessageKey = () => `m${++messageSeq}`;
+
+// Backend gesture names (Waving.fbx) live under /gesturesanimation; full paths pass through
+const toGestureUrl = (p: string) => (p.startsWith('/') ? p : `/gesturesanimation/${p}`);
+
+// Speech is kept as a Blob so stored replies don't carry base64 text around
+const base64ToBlob = (base64: string, type = 'audio/mpeg') =>
+  new Blob([Uint8Array.from(atob(base64), (c) => c.charCodeAt(0))], { type });
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+// Uploaded backgrounds are shown from blob URLs made from the stored files
+const toCustomBackground = (stored: StoredBackground) =>
+  customBackground(stored.id, stored.name, URL.createObjectURL(stored.blob), stored.format);
+
+// Earlier turns sent with each message so the companion remembers the conversation
+const HISTORY_TURNS = 20;
 
 
 export default function Home() {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
-  const [selectedCharKey, setSelectedCharKey] = useState<CharacterKey>('harry');
-  const [selectedBgKey, setSelectedBgKey] = useState<BackgroundKey>('studio');
+  // Personas from public/characters.json (characterManifest.ts)
+  const [characters, setCharacters] = useState<CharacterDefinition[]>([]);
+  const [manifestError, setManifestError] = useState<string | null>(null);
+  const [selectedCharKey, setSelectedCharKey] = useState('harry');
+  const [selectedBgKey, setSelectedBgKey] = useState(DEFAULT_BACKGROUND.id);
+  // Backgrounds the user uploaded, stored in IndexedDB (backgroundStore.ts)
+  const [userBackgrounds, setUserBackgrounds] = useState<BackgroundDescriptor[]>([]);
+  const [backgroundError, setBackgroundError] = useState<string | null>(null);
   const [chatInput, setChatInput] = useState('');
   const [chatResponse, setChatResponse] = useState('');
-  const [messages, setMessages] = useState<Array<{role: 'user' | 'assistant'; text: string}>>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  // Stored conversations of the selected character, most recent first
+  const [conversations, setConversations] = useState<StoredConversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [isTranscriptOpen, setIsTranscriptOpen] = useState(false);
+  const [personaQuery, setPersonaQuery] = useState('');
+  // First matching snippet of stored conversation text, per character
+  const [chatMatches, setChatMatches] = useState<Record<string, { conversationId: string; snippet: string }>>({});
+  // Keyboard cursor in the persona list; shown while the search or list has focus
+  const [highlightedPersona, setHighlightedPersona] = useState(0);
+  const [isPersonaNavActive, setIsPersonaNavActive] = useState(false);
+  const transcriptEndRef = useRef<HTMLDivElement>(null);
   const [isSending, setIsSending] = useState(false);
+  // A reply is in flight or still being performed (speech, motion); shows Cancel
+  const [isReplying, setIsReplying] = useState(false);
   const [isTestingLipSync, setIsTestingLipSync] = useState(false);
     const [isTestingBVH, setIsTestingBVH] = useState(false);
     const canvasRef = useRef<ThreeCanvasHandles>(null);
   const typingTimerRef = useRef<number | null>(null);
   const hadContentRef = useRef<boolean>(false);
+  // Bumped whenever a reply is superseded so its remaining steps are skipped
+  const replySeqRef = useRef(0);
+  // Aborts the current reply's backend request
+  const requestRef = useRef<AbortController | null>(null);
+
+  // Barge-in: stop the avatar mid-sentence and drop the rest of the previous reply.
+  // Only touches refs and state setters, so it is stable across renders.
+  const interruptReply = useCallback(() => {
+    replySeqRef.current += 1;
+    requestRef.current?.abort();
+    requestRef.current = null;
+    canvasRef.current?.cancelSpeech?.();
+    setIsReplying(false);
+  }, []);
+
+  // Mirrors activeConversationId for async callbacks
+  const activeConversationRef = useRef<string | null>(null);
+
+  // Show a stored conversation (or an empty, not yet created one for null)
+  const openConversation = useCallback((id: string | null) => {
+    interruptReply();
+    setIsSending(false);
+    activeConversationRef.current = id;
+    setActiveConversationId(id);
+    setMessages([]);
+    if (!id) return;
+    loadMessages(id)
+      .then((list) => {
+        if (activeConversationRef.current !== id) return;
+        setMessages(list.map(({ id, role, text, createdAt, performance }) => ({
+          key: `db${id}`,
+          role,
+          text,
+          createdAt,
+          performance,
+        })));
+      })
+      .catch((e) => console.warn('Failed to load conversation', e));
+  }, [interruptReply]);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadCharacterManifest()
+      .then(({ characters }) => {
+        if (cancelled) return;
+        setCharacters(characters);
+        setSelectedCharKey((key) => (characters.some((c) => c.id === key) ? key : characters[0].id));
+      })
+      .catch((e) => {
+        console.error('Failed to load characters', e);
+        if (!cancelled) setManifestError(e instanceof Error ? e.message : String(e));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Conversation to open instead of the most recent one once the next persona's list loads
+  const pendingConversationRef = useRef<string | null>(null);
+
+  // Switching persona also switches to its preferred background, when the page has it.
+  // A search hit passes the conversation it matched in, which is opened instead.
+  const selectCharacter = (id: string, conversationId?: string) => {
+    if (conversationId && id === selectedCharKey) {
+      if (conversationId !== activeConversationRef.current) openConversation(conversationId);
+    } else {
+      pendingConversationRef.current = conversationId ?? null;
+    }
+    setSelectedCharKey(id);
+    const background = characters.find((c) => c.id === id)?.defaultBackground;
+    if (background && findBackground(background, userBackgrounds)) setSelectedBgKey(background);
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    let urls: string[] = [];
+    listBackgrounds()
+      .then((stored) => {
+        if (cancelled) return;
+        const list = stored.map(toCustomBackground);
+        urls = list.map((b) => b.sky!.url);
+        setUserBackgrounds(list);
+      })
+      .catch((e) => console.warn('Uploaded backgrounds unavailable', e));
+    return () => {
+      cancelled = true;
+      urls.forEach((url) => URL.revokeObjectURL(url));
+    };
+  }, []);
 
-  // Determine which idle animation to use based on the character's gender.
-  // Female characters use the female idle pack, male characters use the male idle pack.
-  // Return an array of idle FBX files for the given gender so ThreeCanvas can
-  // sequence them one-by-one. Order is the playback sequence.
-  const getGenderedIdle = (gender?: Gender): string[] => {
-    if (gender === 'female') {
-      return [
-        '/idleanimations/female/F_Standing_Idle_001.fbx',
-        '/idleanimations/female/F_Standing_Idle_Variations_001.fbx',
-        '/idleanimations/female/F_Standing_Idle_Variations_002.fbx',
-        '/idleanimations/female/F_Standing_Idle_Variations_003.fbx',
-        '/idleanimations/female/F_Standing_Idle_Variations_004.fbx',
-        '/idleanimations/female/F_Standing_Idle_Variations_005.fbx',
-        '/idleanimations/female/F_Standing_Idle_Variations_006.fbx',
-        '/idleanimations/female/F_Standing_Idle_Variations_007.fbx',
-        '/idleanimations/female/F_Standing_Idle_Variations_008.fbx',
-        '/idleanimations/female/F_Standing_Idle_Variations_009.fbx',
-      ];
+  const handleBackgroundUpload = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    setBackgroundError(null);
+    try {
+      const background = toCustomBackground(await saveBackground(file));
+      setUserBackgrounds((prev) => [...prev, background]);
+      setSelectedBgKey(background.id);
+    } catch (err) {
+      console.warn('Failed to store background', err);
+      setBackgroundError(err instanceof Error ? err.message : 'Could not store the background');
+    }
+  };
+
+  const handleDeleteBackground = async (background: BackgroundDescriptor) => {
+    if (!window.confirm(`Delete background "${background.name}"?`)) return;
+    try {
+      await deleteBackground(background.id);
+      setUserBackgrounds((prev) => prev.filter((b) => b.id !== background.id));
+      if (background.sky) URL.revokeObjectURL(background.sky.url);
+      if (selectedBgKey === background.id) setSelectedBgKey(DEFAULT_BACKGROUND.id);
+    } catch (err) {
+      console.warn('Failed to delete background', err);
+    }
+  };
+
+  // Each character has its own conversations; open the most recent one
+  useEffect(() => {
+    let cancelled = false;
+    const wanted = pendingConversationRef.current;
+    pendingConversationRef.current = null;
+    setConversations([]);
+    openConversation(null);
+    listConversations(selectedCharKey)
+      .then((list) => {
+        if (cancelled) return;
+        setConversations(list);
+        const open = list.find((c) => c.id === wanted) ?? list[0];
+        if (open) openConversation(open.id);
+      })
+      .catch((e) => console.warn('Chat history unavailable; conversations will not be saved', e));
+    return () => {
+      cancelled = true;
+    };
+  }, [selectedCharKey, openConversation]);
+
+  // Search stored conversations too (debounced; the store scans every message's text)
+  useEffect(() => {
+    const query = personaQuery.trim();
+    setHighlightedPersona(0);
+    if (!query) {
+      setChatMatches({});
+      return;
+    }
+    let cancelled = false;
+    const timer = window.setTimeout(() => {
+      searchConversations(query)
+        .then((matches) => {
+          if (cancelled) return;
+          const byCharacter: typeof chatMatches = {};
+          for (const { conversation, snippet } of matches) {
+            byCharacter[conversation.character] ??= { conversationId: conversation.id, snippet };
+          }
+          setChatMatches(byCharacter);
+        })
+        .catch((e) => console.warn('Conversation search failed', e));
+    }, 200);
+    return () => {
+      cancelled = true;
+      window.clearTimeout(timer);
+    };
+  }, [personaQuery]);
+
+  const visiblePersonas = characters.filter(
+    (c) => !personaQuery.trim() || personaMatches(c, personaQuery) || c.id in chatMatches
+  );
+
+  // Arrow keys move through the filtered personas, Enter selects, Escape clears the search
+  const handlePersonaKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      setPersonaQuery('');
+      return;
+    }
+    if (visiblePersonas.length === 0) return;
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault();
+      const step = e.key === 'ArrowDown' ? 1 : -1;
+      const next = (Math.min(highlightedPersona, visiblePersonas.length - 1) + step + visiblePersonas.length) % visiblePersonas.length;
+      setHighlightedPersona(next);
+      document.getElementById(`persona-option-${visiblePersonas[next].id}`)?.scrollIntoView({ block: 'nearest' });
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      const { id } = visiblePersonas[Math.min(highlightedPersona, visiblePersonas.length - 1)];
+      selectCharacter(id, chatMatches[id]?.conversationId);
     }
-    // male
-    return [
-      '/idleanimations/male/M_Standing_Idle_001.fbx',
-      '/idleanimations/male/M_Standing_Idle_002.fbx',
-      '/idleanimations/male/M_Standing_Idle_Variations_001.fbx',
-      '/idleanimations/male/M_Standing_Idle_Variations_002.fbx',
-      '/idleanimations/male/M_Standing_Idle_Variations_003.fbx',
-      '/idleanimations/male/M_Standing_Idle_Variations_004.fbx',
-      '/idleanimations/male/M_Standing_Idle_Variations_005.fbx',
-      '/idleanimations/male/M_Standing_Idle_Variations_006.fbx',
-      '/idleanimations/male/M_Standing_Idle_Variations_007.fbx',
-      '/idleanimations/male/M_Standing_Idle_Variations_008.fbx',
-      '/idleanimations/male/M_Standing_Idle_Variations_009.fbx',
-      '/idleanimations/male/M_Standing_Idle_Variations_010.fbx',
-    ];
   };
 
-  // Choose effective idle animation for the selected character (gender-aware with fallback)
-  const selectedCharacter = characters[selectedCharKey];
-  // Pass an array to ThreeCanvas when available; fall back to a single-file array
-  const effectiveIdleAnimationUrl: string | string[] = selectedCharacter?.gender
-    ? getGenderedIdle(selectedCharacter.gender)
-    : selectedCharacter?.idleAnimationUrl
-    ? [selectedCharacter.idleAnimationUrl]
-    : ['/idleanimations/StandIdle.fbx'];
+  // Move a conversation to the top of the list with its latest metadata
+  const touchConversation = (conversation: StoredConversation) => {
+    setConversations((prev) => [conversation, ...prev.filter((c) => c.id !== conversation.id)]);
+  };
+
+  const handleNewConversation = async () => {
+    try {
+      const conversation = await createConversation(selectedCharKey);
+      touchConversation(conversation);
+      openConversation(conversation.id);
+    } catch (e) {
+      console.warn('Failed to create conversation', e);
+      openConversation(null);
+    }
+  };
+
+  const handleRenameConversation = async (conversation: StoredConversation) => {
+    const title = window.prompt('Rename chat', conversation.title);
+    if (title === null) return;
+    try {
+      const renamed = await renameConversation(conversation.id, title);
+      if (renamed) setConversations((prev) => prev.map((c) => (c.id === renamed.id ? renamed : c)));
+    } catch (e) {
+      console.warn('Failed to rename conversation', e);
+    }
+  };
+
+  const handleDeleteConversation = async (conversation: StoredConversation) => {
+    if (!window.confirm(`Delete "${conversation.title}"?`)) return;
+    try {
+      await deleteConversation(conversation.id);
+    } catch (e) {
+      console.warn('Failed to delete conversation', e);
+      return;
+    }
+    const remaining = conversations.filter((c) => c.id !== conversation.id);
+    setConversations(remaining);
+    if (conversation.id === activeConversationRef.current) openConversation(remaining[0]?.id ?? null);
+  };
+
+  // The conversation the next message belongs to, created on the first message
+  const ensureConversation = async (firstText: string) => {
+    if (activeConversationRef.current) return activeConversationRef.current;
+    try {
+      const conversation = await createConversation(selectedCharKey, titleFromText(firstText));
+      touchConversation(conversation);
+      activeConversationRef.current = conversation.id;
+      setActiveConversationId(conversation.id);
+      return conversation.id;
+    } catch (e) {
+      console.warn('Chat history unavailable; this conversation will not be saved', e);
+      return null;
+    }
+  };
+
+  const saveTurn = (
+    conversationId: string | null,
+    role: ChatRole,
+    text: string,
+    performance?: ReplyPerformance
+  ) => {
+    if (!conversationId || !text.trim()) return;
+    addMessage(conversationId, performance ? { role, text, performance } : { role, text })
+      .then(({ conversation }) => {
+        if (conversation) touchConversation(conversation);
+      })
+      .catch((e) => console.warn('Failed to save message', e));
+  };
+
+  // Add a message to the visible conversation; returns its key for later updates
+  const pushMessage = (message: Omit<ChatMessage, 'key' | 'createdAt'>) => {
+    const key = nextMessageKey();
+    setMessages(prev => [...prev, { ...message, key, createdAt: Date.now() }]);
+    return key;
+  };
+
+  const patchMessage = (key: string, patch: Partial<ChatMessage>) => {
+    setMessages(prev => prev.map((m) => (m.key === key ? { ...m, ...patch } : m)));
+  };
+
+  // Keep the transcript scrolled to the newest message while it is open
+  useEffect(() => {
+    if (isTranscriptOpen) transcriptEndRef.current?.scrollIntoView({ block: 'end' });
+  }, [isTranscriptOpen, messages]);
+
+  // Cancel button: abort the request and speech and put the avatar back to idle
+  const cancelReply = () => {
+    interruptReply();
+    setIsSending(false);
+    canvasRef.current?.resetToIdle?.();
+  };
+
+  const selectedCharacter = characters.find((c) => c.id === selectedCharKey);
+  const selectedBackground = findBackground(selectedBgKey, userBackgrounds) ?? DEFAULT_BACKGROUND;
+  const visemeProfile = getVisemeProfile(selectedCharacter?.visemeProfile);
 
-  const selectedBackground = backgrounds[selectedBgKey];
+  // Convert whatever viseme format the TTS backend produced (Rhubarb, Azure, Polly)
+  // into the canvas timeline using the character's viseme profile
+  const toVisemeTimeline = (payload: unknown, format?: string | null) =>
+    parseVisemePayload(payload, visemeProfile, format);
 
   // Debug: show which idle animation file we're asking ThreeCanvas to load
   // (Check browser console / network to ensure file exists and loads)
-  if (typeof window !== 'undefined') {
-    console.log('Selected character:', selectedCharKey, 'gender:', selectedCharacter?.gender, 'idle:', Array.isArray(effectiveIdleAnimationUrl) ? effectiveIdleAnimationUrl.join(', ') : effectiveIdleAnimationUrl);
+  if (typeof window !== 'undefined' && selectedCharacter) {
+    console.log('Selected character:', selectedCharKey, 'gender:', selectedCharacter.gender, 'idle:', selectedCharacter.idleAnimationUrls.join(', '));
   }
 
   // --- CORRECTED CHAT SUBMIT HANDLER ---
@@ -160,7 +408,13 @@ export default function Home() {
     e.preventDefault();
     if (isSending || !chatInput.trim()) return;
 
+  interruptReply();
+  const seq = replySeqRef.current;
+  const isCurrent = () => replySeqRef.current === seq;
+  const controller = new AbortController();
+  requestRef.current = controller;
   setIsSending(true);
+  setIsReplying(true);
   // Immediately clear typing pose/state so subsequent gestures/BVH start from neutral
   try {
     if (typingTimerRef.current) {
@@ -175,64 +429,66 @@ export default function Home() {
     console.warn('Failed to clear typing state on submit', e);
   }
   const userText = chatInput;
+  // Context for the companion: the conversation so far, without this message
+  const history = messages
+    .filter((m) => !m.transient)
+    .slice(-HISTORY_TURNS)
+    .map(({ role, text }) => ({ role, text }));
   // append user message to history immediately
-  setMessages(prev => [...prev, { role: 'user', text: userText }]);
+  pushMessage({ role: 'user', text: userText });
   const prompt = chatInput;
   setChatInput('');
 
     try {
-      const companionResponse = await fetch(`${BACKEND_URL}/api/companion`, {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({
+      const conversationId = await ensureConversation(userText);
+      saveTurn(conversationId, 'user', userText);
+
+      const result = await companionClient.chat(
+        {
           text: prompt,
           character: selectedCharKey,
-          background: selectedBgKey
-        }),
-      });
+          background: selectedBgKey,
+          voice: selectedCharacter?.voice ?? undefined,
+          history,
+        },
+        { stream: true, signal: controller.signal }
+      );
 
-      if (!companionResponse.ok) {
-        throw new Error(`Companion API failed with status: ${companionResponse.status}`);
-      }
-      
-      // The backend returns the raw Rhubarb cues in the 'visemes' property
-      const result = await companionResponse.json();
-      const {
-        response: answer,
-        audio_base64,
-        visemes: rawVisemeCues,
-        bvh_files: bvhFileNames,
-        emotion,
-        mixamo_animation,
-      } = result;
-
-      if (!answer) {
-        throw new Error("Invalid or incomplete response from companion API");
+      // Backends that support it stream text, audio and cues as they are produced
+      if (result.kind === 'stream') {
+        await playStreamedReply(result.events, isCurrent, conversationId);
+        return;
       }
-      
+
+      // The backend returns raw TTS cues (Rhubarb, Azure or Polly) with the speech
+      const { text: answer, speech, motionFiles, emotion, gestures } = result.reply;
+
   // append assistant message to history
   // strip any bracketed tags from the visible message (tags still used for animation control)
-  const visible = String(answer).replace(/\[[^\]]*\]/g, '').replace(/\s+/g, ' ').trim();
-  setMessages(prev => [...prev, { role: 'assistant', text: visible }]);
+  const visible = toVisibleText(answer);
 
       // Prepare optional assets
-      let processedVisemes: Array<{ time: number; value: string; jaw: number }> | null = null;
+      let processedVisemes: VisemeCue[] | null = null;
       let audioDataUri: string | null = null;
-      if (audio_base64 && rawVisemeCues && Array.isArray(rawVisemeCues)) {
-        processedVisemes = rawVisemeCues.map((cue: RawVisemeCue) => {
-          const entry = rhubarbToVisemeMap[cue.value] || rhubarbToVisemeMap['X'];
-          return { time: cue.start, value: entry.viseme, jaw: entry.jaw };
-        });
-        if (rawVisemeCues.length > 0) {
-          const lastCue = rawVisemeCues[rawVisemeCues.length - 1];
-          processedVisemes.push({ time: lastCue.end, value: 'viseme_sil', jaw: 0 });
-        }
-        audioDataUri = `data:audio/mp3;base64,${audio_base64}`;
+      let performance: ReplyPerformance | undefined;
+      const gestureUrls = gestures.map(toGestureUrl);
+      if (speech) {
+        // Without cues the canvas aligns the text itself (or falls back to the analyser)
+        processedVisemes = toVisemeTimeline(speech.visemes, speech.visemeFormat);
+        audioDataUri = `data:audio/mp3;base64,${speech.audioBase64}`;
+        performance = {
+          emotion,
+          gestures: gestureUrls,
+          segments: [{ audio: base64ToBlob(speech.audioBase64), visemes: processedVisemes, text: visible }],
+          visemes: [],
+        };
       }
+  pushMessage({ role: 'assistant', text: visible, performance });
+  saveTurn(conversationId, 'assistant', visible, performance);
+  // The reply is in; let the user type (and barge in) while it is spoken
+  setIsSending(false);
 
-      const bvhUrls = Array.isArray(bvhFileNames) && bvhFileNames.length > 0
-        ? bvhFileNames.map((fileName: string) => `${BACKEND_URL}/generated_bvh/${fileName}`)
-        : [];
+      const bvhUrls = motionFiles.map((fileName) => companionClient.motionUrl(fileName));
 
   // mixamo_animation handling removed — gestures are no longer supported
 
@@ -241,19 +497,19 @@ export default function Home() {
         // 1) Speech (if available)
         if (audioDataUri && processedVisemes) {
           // Play speech and gestures in parallel (gestures overlay on top of talking)
-          const speech = canvasRef.current.playAudioWithEmotionAndLipSync(
-            audioDataUri,
-            processedVisemes,
-            emotion || 'neutral'
-          );
+          const speech = canvasRef.current.enqueueUtterance?.({
+            audio: audioDataUri,
+            visemes: processedVisemes,
+            emotion,
+            // lets the canvas align visemes itself when the backend sent none
+            options: { text: visible },
+          });
 
-          if (mixamo_animation && canvasRef.current.playGestures) {
+          if (gestureUrls.length > 0 && canvasRef.current.playGestures) {
             try {
-              const urls = Array.isArray(mixamo_animation) ? mixamo_animation : [mixamo_animation];
-              const converted = urls.map((p: string) => (p.startsWith('/') ? p : `/gesturesanimation/${p}`));
-              console.log('page.tsx: playing gestures', converted);
+              console.log('page.tsx: playing gestures', gestureUrls);
               // fire-and-forget so gestures overlay while speaking
-              canvasRef.current.playGestures(converted).catch((e) => console.warn(e));
+              canvasRef.current.playGestures(gestureUrls).catch((e) => console.warn(e));
             } catch (e) {
               console.warn('Failed to start gestures', e);
             }
@@ -261,18 +517,162 @@ export default function Home() {
 
           await speech;
         }
-        // 2) Motion (if available)
-        if (bvhUrls.length > 0) {
+        // 2) Motion (if available), unless the user interrupted the reply
+        if (bvhUrls.length > 0 && isCurrent()) {
           await canvasRef.current.playAnimation(bvhUrls[0]);
         }
       }
 
     } catch (error) {
+      // Cancelled or superseded replies were already cleaned up by whoever stopped them
+      if (isCancellation(error) || !isCurrent()) return;
       const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
       console.error("Chat submission error:", error);
-  setMessages(prev => [...prev, { role: 'assistant', text: `Error: ${errorMessage}` }]);
+  pushMessage({ role: 'assistant', text: `Error: ${errorMessage}`, transient: true });
+      // A failed reply (timeout, dropped stream) must not leave the avatar mid-speech
+      canvasRef.current?.cancelSpeech?.();
+      canvasRef.current?.resetToIdle?.();
     } finally {
-      setIsSending(false);
+      if (isCurrent()) {
+        requestRef.current = null;
+        setIsSending(false);
+        setIsReplying(false);
+      }
+    }
+  };
+
+  // Consume a streamed reply: grow the last assistant bubble as text arrives and
+  // feed audio chunks and cue batches into a single open utterance on the canvas.
+  const playStreamedReply = async (
+    events: AsyncGenerator<CompanionStreamEvent>,
+    isCurrent: () => boolean,
+    conversationId: string | null
+  ) => {
+    const canvas = canvasRef.current;
+    let fullText = '';
+    let emotion: Emotion = 'neutral';
+    let gestures: string[] = [];
+    let bvhFileNames: string[] = [];
+    let speaking = false;
+    let gesturesStarted = false;
+    // Recorded as played so the reply can be replayed from the transcript
+    const segments: ReplyPerformance['segments'] = [];
+    const lateVisemes: VisemeCue[] = [];
+    // Reply text already handed to a spoken segment; the rest belongs to the next one
+    let spokenLength = 0;
+
+    const bubbleKey = pushMessage({ role: 'assistant', text: '' });
+    const updateBubble = (text: string) => patchMessage(bubbleKey, { text });
+
+    try {
+      for await (const event of events) {
+        // Interrupted: stop feeding the canvas and let the stream close
+        if (!isCurrent()) return;
+        switch (event.type) {
+          case 'text':
+            fullText += event.delta;
+            updateBubble(toVisibleText(fullText));
+            break;
+          case 'meta':
+            if (event.emotion) emotion = normalizeEmotion(event.emotion);
+            if (event.mixamo_animation) {
+              const urls = Array.isArray(event.mixamo_animation) ? event.mixamo_animation : [event.mixamo_animation];
+              gestures = urls.map(toGestureUrl);
+            }
+            if (Array.isArray(event.bvh_files)) bvhFileNames = event.bvh_files;
+            break;
+          case 'audio': {
+            if (!canvas) break;
+            const visemes = toVisemeTimeline(event.visemes, event.viseme_format);
+            // Chunks without cues are aligned against the text streamed since the last one
+            const text = toVisibleText(fullText.slice(spokenLength)).trim() || undefined;
+            spokenLength = fullText.length;
+            segments.push({ audio: base64ToBlob(event.audio_base64), visemes, text });
+            await canvas.playAudioWithEmotionAndLipSync(
+              `data:audio/mp3;base64,${event.audio_base64}`,
+              visemes,
+              emotion,
+              { append: speaking, keepOpen: true, text }
+            );
+            if (!speaking) setIsSending(false);
+            speaking = true;
+            if (!gesturesStarted && gestures.length > 0 && canvas.playGestures) {
+              gesturesStarted = true;
+              console.log('page.tsx: playing gestures', gestures);
+              canvas.playGestures(gestures).catch((e) => console.warn(e));
+            }
+            break;
+          }
+          case 'visemes': {
+            const visemes = toVisemeTimeline(event.visemes, event.viseme_format);
+            lateVisemes.push(...visemes);
+            canvas?.appendVisemes?.(visemes);
+            break;
+          }
+          case 'done':
+            if (event.response) {
+              fullText = event.response;
+              updateBubble(toVisibleText(fullText));
+            }
+            break;
+          case 'error':
+            throw new Error(event.message);
+        }
+      }
+    } finally {
+      // Keep whatever was shown, including replies cut short by a barge-in
+      const performance = segments.length > 0 ? { emotion, gestures, segments, visemes: lateVisemes } : undefined;
+      if (performance) patchMessage(bubbleKey, { performance });
+      saveTurn(conversationId, 'assistant', toVisibleText(fullText), performance);
+    }
+
+    if (!fullText.trim()) {
+      throw new Error("Invalid or incomplete response from companion API");
+    }
+    if (canvas && speaking) await canvas.finishUtterance?.();
+    if (canvas && bvhFileNames.length > 0 && isCurrent()) {
+      await canvas.playAnimation(companionClient.motionUrl(bvhFileNames[0]));
+    }
+  };
+
+  // Perform a stored reply again: same audio, cues, emotion and gestures
+  const replayMessage = async (message: ChatMessage) => {
+    const canvas = canvasRef.current;
+    const performance = message.performance;
+    if (!canvas || !performance || performance.segments.length === 0) return;
+    interruptReply();
+    const seq = replySeqRef.current;
+    setIsReplying(true);
+    // The canvas reads a segment's audio once, when it schedules it: each URL is
+    // revoked as soon as its segment is in, and whatever is left when the replay
+    // stops early (cancelled, failed) on the way out
+    const urls = new Set<string>();
+    const revoke = (url: string) => {
+      if (urls.delete(url)) URL.revokeObjectURL(url);
+    };
+    try {
+      for (let i = 0; i < performance.segments.length; i++) {
+        if (replySeqRef.current !== seq) break;
+        const segment = performance.segments[i];
+        const url = URL.createObjectURL(segment.audio);
+        urls.add(url);
+        await canvas.playAudioWithEmotionAndLipSync(url, segment.visemes, performance.emotion, {
+          append: i > 0,
+          keepOpen: true,
+          text: segment.text,
+        });
+        revoke(url);
+        if (i === 0 && performance.gestures.length > 0) {
+          canvas.playGestures?.(performance.gestures).catch((e) => console.warn(e));
+        }
+      }
+      if (performance.visemes.length > 0) canvas.appendVisemes?.(performance.visemes);
+      await canvas.finishUtterance?.();
+    } catch (e) {
+      console.warn('Replay failed', e);
+    } finally {
+      urls.forEach(revoke);
+      if (replySeqRef.current === seq) setIsReplying(false);
     }
   };
 
@@ -289,25 +689,16 @@ export default function Home() {
   // no placeholder in the bar; optional: push a system message if needed
 
     try {
-      const response = await fetch('/audio/test-speech.json');
+      // ?visemeFixture=azure|polly|arkit picks the matching fixture; default is Rhubarb
+      const fixture = new URLSearchParams(window.location.search).get('visemeFixture');
+      const fixtureUrl = fixture ? `/audio/test-speech.${fixture}.json` : '/audio/test-speech.json';
+      const response = await fetch(fixtureUrl);
       if (!response.ok) {
-        throw new Error(`Failed to load test-speech.json: ${response.statusText}`);
-      }
-      const rhubarbData = await response.json();
-
-      const visemes = rhubarbData.mouthCues.map((cue: RawVisemeCue) => {
-        const entry = rhubarbToVisemeMap[cue.value] || rhubarbToVisemeMap['X'];
-        return {
-            time: cue.start,
-            value: entry.viseme, 
-            jaw: entry.jaw       
-        };
-      });
-      
-      if (rhubarbData.mouthCues.length > 0) {
-        const lastCue = rhubarbData.mouthCues[rhubarbData.mouthCues.length - 1];
-        visemes.push({ time: lastCue.end, value: 'viseme_sil', jaw: 0 });
+        throw new Error(`Failed to load ${fixtureUrl}: ${response.statusText}`);
       }
+      const fixtureData = await response.json();
+
+      const visemes = toVisemeTimeline(fixtureData);
       
       const audioResponse = await fetch('/sample.wav');
       const audioBuffer = await audioResponse.arrayBuffer();
@@ -316,12 +707,12 @@ export default function Home() {
 canvasRef.current.playAudioWithEmotionAndLipSync(audioDataUri, visemes, 'neutral');
 
 
-  setMessages(prev => [...prev, { role: 'assistant', text: 'Static lip-sync test complete.' }]);
+  pushMessage({ role: 'assistant', text: 'Static lip-sync test complete.', transient: true });
 
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
       console.error("Lip-sync test failed:", error);
-  setMessages(prev => [...prev, { role: 'assistant', text: `Error in test: ${errorMessage}` }]);
+  pushMessage({ role: 'assistant', text: `Error in test: ${errorMessage}`, transient: true });
     } finally {
       setIsSending(false);
       setIsTestingLipSync(false);
@@ -337,18 +728,27 @@ canvasRef.current.playAudioWithEmotionAndLipSync(audioDataUri, visemes, 'neutral
         setChatResponse('Canvas not ready.');
         return;
       }
-  setMessages(prev => [...prev, { role: 'assistant', text: 'Loading BVH...' }]);
-      const testBvhUrl = `${BACKEND_URL}/generated_bvh/A_person_runs.bvh`;
+  pushMessage({ role: 'assistant', text: 'Loading BVH...', transient: true });
+      const testBvhUrl = companionClient.motionUrl('A_person_runs.bvh');
       await canvasRef.current.playAnimation(testBvhUrl);
-  setMessages(prev => [...prev, { role: 'assistant', text: 'BVH played.' }]);
+  pushMessage({ role: 'assistant', text: 'BVH played.', transient: true });
     } catch (e) {
       const msg = e instanceof Error ? e.message : String(e);
-  setMessages(prev => [...prev, { role: 'assistant', text: `BVH test failed: ${msg}` }]);
+  pushMessage({ role: 'assistant', text: `BVH test failed: ${msg}`, transient: true });
     } finally {
       setIsTestingBVH(false);
     }
   };
 
+  // Nothing to show until the character manifest has loaded
+  if (!selectedCharacter) {
+    return (
+      <main suppressHydrationWarning className={styles.mainContainer}>
+        <div className={styles.manifestStatus}>{manifestError ?? 'Loading characters…'}</div>
+      </main>
+    );
+  }
+
   return (
     <main suppressHydrationWarning className={`${styles.mainContainer} ${!isSidebarOpen ? styles.sidebarCollapsed : ''}`}>
   <div className={styles.leftPanel}>
@@ -358,21 +758,140 @@ canvasRef.current.playAudioWithEmotionAndLipSync(audioDataUri, visemes, 'neutral
             <div className={styles.title}>Chats</div>
           </div>
 
-          <div className={styles.searchWrap}>
-            <input className={styles.searchInput} placeholder="Search" suppressHydrationWarning autoComplete="off" />
+          <div
+            className={styles.personaSearch}
+            onFocus={() => setIsPersonaNavActive(true)}
+            onBlur={() => setIsPersonaNavActive(false)}
+          >
+            <div className={styles.searchWrap}>
+              <input
+                className={styles.searchInput}
+                placeholder="Search"
+                value={personaQuery}
+                onChange={(e) => setPersonaQuery(e.target.value)}
+                onKeyDown={handlePersonaKeyDown}
+                role="combobox"
+                aria-expanded
+                aria-controls="persona-list"
+                aria-activedescendant={
+                  visiblePersonas[highlightedPersona] ? `persona-option-${visiblePersonas[highlightedPersona].id}` : undefined
+                }
+                suppressHydrationWarning
+                autoComplete="off"
+              />
+            </div>
+
+            <div
+              className={styles.personaList}
+              id="persona-list"
+              role="listbox"
+              tabIndex={0}
+              onKeyDown={handlePersonaKeyDown}
+            >
+              {visiblePersonas.length === 0 && <div className={styles.personaEmpty}>No personas or chats match</div>}
+              {visiblePersonas.map((c, index) => (
+                <div
+                  key={c.id}
+                  id={`persona-option-${c.id}`}
+                  role="option"
+                  aria-selected={selectedCharKey === c.id}
+                  className={`${styles.personaItem} ${selectedCharKey === c.id ? styles.personaActive : ''} ${
+                    isPersonaNavActive && index === highlightedPersona ? styles.personaHighlighted : ''
+                  }`}
+                  onClick={() => selectCharacter(c.id, chatMatches[c.id]?.conversationId)}
+                  onMouseEnter={() => setHighlightedPersona(index)}
+                >
+                  {c.thumbnail ? (
+                    <img className={styles.personaAvatar} src={c.thumbnail} alt="" />
+                  ) : (
+                    <div className={styles.personaAvatar} />
+                  )}
+                  <div className={styles.personaText}>
+                    <div className={styles.personaName}>{c.name.split(' ')[0]}</div>
+                    {chatMatches[c.id] && (
+                      <div className={styles.personaSnippet} title="Open this chat">
+                        “{chatMatches[c.id].snippet}”
+                      </div>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
           </div>
 
-          <div className={styles.personaList}>
-            {(Object.keys(characters) as CharacterKey[]).map((key) => (
-              <div
-                key={key}
-                className={`${styles.personaItem} ${selectedCharKey === key ? styles.personaActive : ''}`}
-                onClick={() => setSelectedCharKey(key)}
-              >
-                <div className={styles.personaAvatar} />
-                <div className={styles.personaName}>{characters[key].name.split(' ')[0]}</div>
+          <div className={styles.conversationSection}>
+            <div className={styles.conversationHeader}>
+              <span>{selectedCharacter.name.split(' ')[0]}&apos;s chats</span>
+              <button className={styles.newChatBtn} onClick={handleNewConversation} aria-label="new chat">
+                + New
+              </button>
+            </div>
+            {conversations.length === 0 ? (
+              <div className={styles.conversationEmpty}>No saved chats yet</div>
+            ) : (
+              <div className={styles.conversationList}>
+                {conversations.map((c) => (
+                  <div
+                    key={c.id}
+                    className={`${styles.conversationItem} ${c.id === activeConversationId ? styles.conversationActive : ''}`}
+                    onClick={() => c.id !== activeConversationId && openConversation(c.id)}
+                    title={new Date(c.updatedAt).toLocaleString()}
+                  >
+                    <span className={styles.conversationTitle}>{c.title}</span>
+                    <button
+                      className={styles.conversationAction}
+                      aria-label="rename chat"
+                      onClick={(e) => { e.stopPropagation(); handleRenameConversation(c); }}
+                    >
+                      ✎
+                    </button>
+                    <button
+                      className={styles.conversationAction}
+                      aria-label="delete chat"
+                      onClick={(e) => { e.stopPropagation(); handleDeleteConversation(c); }}
+                    >
+                      🗑
+                    </button>
+                  </div>
+                ))}
               </div>
-            ))}
+            )}
+          </div>
+
+          <div className={styles.conversationSection}>
+            <div className={styles.conversationHeader}>
+              <span>Background</span>
+              <label className={styles.newChatBtn} aria-label="upload background">
+                + Upload
+                <input
+                  type="file"
+                  accept=".jpg,.jpeg,.hdr,.exr"
+                  className={styles.hiddenInput}
+                  onChange={handleBackgroundUpload}
+                />
+              </label>
+            </div>
+            {backgroundError && <div className={styles.conversationEmpty}>{backgroundError}</div>}
+            <div className={styles.conversationList}>
+              {[...BUILTIN_BACKGROUNDS, ...userBackgrounds].map((b) => (
+                <div
+                  key={b.id}
+                  className={`${styles.conversationItem} ${b.id === selectedBackground.id ? styles.conversationActive : ''}`}
+                  onClick={() => setSelectedBgKey(b.id)}
+                >
+                  <span className={styles.conversationTitle}>{b.name}</span>
+                  {b.custom && (
+                    <button
+                      className={styles.conversationAction}
+                      aria-label="delete background"
+                      onClick={(e) => { e.stopPropagation(); handleDeleteBackground(b); }}
+                    >
+                      🗑
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
           </div>
 
           <div className={styles.sidebarTools}>
@@ -393,24 +912,58 @@ canvasRef.current.playAudioWithEmotionAndLipSync(audioDataUri, visemes, 'neutral
         <ThreeCanvas
           ref={canvasRef}
           characterModelUrl={selectedCharacter.modelUrl}
-          idleAnimationUrl={effectiveIdleAnimationUrl}
-          typingAnimationUrl={(selectedCharacter as any).typingAnimationUrl}
-          talkingAnimationUrl1={selectedCharacter.talkingAnimationUrl1}
-          talkingAnimationUrl2={selectedCharacter.talkingAnimationUrl2}
+          idleAnimationUrl={selectedCharacter.idleAnimationUrls}
+          introAnimationUrl={selectedCharacter.introAnimationUrl ?? undefined}
+          interruptAnimationUrl={selectedCharacter.interruptAnimationUrl ?? undefined}
+          animationUrl={selectedCharacter.ambientAnimationUrl ?? undefined}
+          typingAnimationUrl={selectedCharacter.typingAnimationUrl ?? undefined}
+          talkingAnimationUrl1={selectedCharacter.talkingAnimationUrls[0]}
+          talkingAnimationUrl2={selectedCharacter.talkingAnimationUrls[1]}
           backgroundData={selectedBackground}
+          visemeProfile={visemeProfile}
+          emotionOverrides={selectedCharacter.emotionOverrides}
+          retargetOverrides={selectedCharacter.retarget ?? undefined}
         />
         {/* AI response bubble above the input, centered */}
         {messages.length > 0 && (
           <div className={styles.messageCard}>
             <div className={styles.messageContent}>
-              {messages.slice(-4).map((m, idx) => (
-                <div key={idx} style={{opacity: m.role === 'assistant' ? 1 : 0.95}}>
+              {messages.slice(-4).map((m) => (
+                <div key={m.key} style={{opacity: m.role === 'assistant' ? 1 : 0.95}}>
                   <strong>{m.role === 'assistant' ? selectedCharacter.name.split(' ')[0] : 'User'} :</strong>&nbsp;{m.text.replace(/\n\[none\]$/i, '').trim()}
                 </div>
               ))}
             </div>
           </div>
         )}
+        {/* Full transcript of the open conversation; spoken replies can be replayed */}
+        <button
+          className={styles.transcriptToggle}
+          aria-label={isTranscriptOpen ? 'hide transcript' : 'show transcript'}
+          onClick={() => setIsTranscriptOpen((open) => !open)}
+        >
+          {isTranscriptOpen ? 'Close' : 'Transcript'}
+        </button>
+        {isTranscriptOpen && (
+          <div className={styles.transcriptPanel}>
+            {messages.length === 0 && <div className={styles.transcriptEmpty}>No messages yet</div>}
+            {messages.map((m) => (
+              <div key={m.key} className={`${styles.transcriptItem} ${m.role === 'user' ? styles.transcriptUser : ''}`}>
+                <div className={styles.transcriptMeta}>
+                  <span>{m.role === 'assistant' ? selectedCharacter.name.split(' ')[0] : 'You'}</span>
+                  <time dateTime={new Date(m.createdAt).toISOString()}>{formatTime(m.createdAt)}</time>
+                  {m.performance && (
+                    <button className={styles.replayBtn} aria-label="replay message" onClick={() => replayMessage(m)}>
+                      ▶ Replay
+                    </button>
+                  )}
+                </div>
+                <div className={styles.transcriptText}>{m.text}</div>
+              </div>
+            ))}
+            <div ref={transcriptEndRef} />
+          </div>
+        )}
         {/* Canvas overlays: floating hamburger (visible only when sidebar is closed) */}
   {!isSidebarOpen && (
           <div className={styles.canvasHamburger} onClick={() => setIsSidebarOpen(true)}>
@@ -435,6 +988,8 @@ canvasRef.current.playAudioWithEmotionAndLipSync(audioDataUri, visemes, 'neutral
               // Transition: empty -> non-empty triggers typing pose once
               if (v.length > 0) {
                 if (!hadContentRef.current) {
+                  // Typing over the avatar interrupts its current reply
+                  if (canvasRef.current?.isSpeaking?.()) interruptReply();
                   canvasRef.current?.setTyping(true);
                   hadContentRef.current = true;
                 }
@@ -454,6 +1009,15 @@ canvasRef.current.playAudioWithEmotionAndLipSync(audioDataUri, visemes, 'neutral
       suppressHydrationWarning
       autoComplete="off"
           />
+          {isReplying && (
+            <button
+              className={styles.cancelBtn}
+              aria-label="cancel reply"
+              onClick={(e) => { e.preventDefault(); cancelReply(); }}
+            >
+              Cancel
+            </button>
+          )}
           <button
             className={styles.sendBtn || 'sendBtn'}
             aria-label="send message"
@@ -61,7 +61,6 @@ export default function Home() {
   const canvasRef = useRef<ThreeCanvasHandles>(null);
 
   const selectedCharacter = characters[selectedCharKey];
-  const selectedBackground = backgrounds[selectedBgKey];
 
   // NEW: This is the real chat submission logic that connects to the backend
   const handleChatSubmit = async (e: React.FormEvent) => {
@@ -205,7 +204,7 @@ export default function Home() {
           idleAnimationUrl={selectedCharacter.idleAnimationUrl}
           interruptAnimationUrl={selectedCharacter.interruptAnimationUrl}
           smileIntensity={0.2}
-          backgroundData={selectedBackground}
+          backgroundPreset={selectedBgKey}
         />
       </div>
     </main>
@@ -0,0 +1,200 @@
+// Compile the FBX idle and gesture packs under public/ into animation bundles
+// (see app/components/animationBundles.ts for the format):
+//
+//   npm run build:anims
+//
+// Each clip's rig is detected and its bones renamed to the Ready Player Me rig
+// with the same naming tables as app/components/retargeting.ts
+// (rigConventions.json); it loses its root translation and has its keyframes
+// quantized. The FBX's rest pose is stored with each clip (under the renamed
+// bones) so the app can align it to the character's bind pose, as it does for
+// clips parsed from FBX. Output goes to public/animations/, one bundle per pack
+// plus index.json mapping every source FBX url to its bundle.
+
+import { readdir, readFile, mkdir, writeFile, rm, stat } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { Quaternion, Texture, TextureLoader, Vector3 } from "three";
+import { FBXLoader } from "three/examples/jsm/loaders/FBXLoader.js";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const PUBLIC = path.join(ROOT, "public");
+const OUT_DIR = path.join(PUBLIC, "animations");
+
+const BUNDLE_VERSION = 2;
+// Mixamo exports at 30 fps; keys are snapped to this frame grid
+const FPS = 30;
+
+// Bundle name -> folder of FBX files (relative to public/)
+const PACKS = {
+  "idle-male": "idleanimations/male",
+  "idle-female": "idleanimations/female",
+  "idle-common": "idleanimations",
+  gestures: "gesturesanimation",
+};
+
+// Only the animation is read. Embedded textures would need a DOM to decode, so
+// FBXLoader gets blob URLs from Node's globals and placeholder textures.
+globalThis.window ??= globalThis;
+TextureLoader.prototype.load = () => new Texture();
+
+const rigConventions = JSON.parse(await readFile(path.join(ROOT, "app/components/rigConventions.json"), "utf8"));
+const TABLES = rigConventions.tables.map((table) => ({
+  rig: table.rig,
+  // Matched case-insensitively
+  bones: new Map(Object.entries(table.bones).map(([name, role]) => [name.toLowerCase(), role])),
+}));
+// Ready Player Me uses the Mixamo names without the prefix
+const roleToBone = new Map();
+for (const [bone, role] of Object.entries(rigConventions.tables.find((table) => table.rig === "mixamo").bones)) {
+  if (role && !roleToBone.has(role)) roleToBone.set(role, bone);
+}
+
+const plainName = (name) => name.replace(/^mixamorig\d*:?/i, "");
+
+// Same scoring as detectRig in retargeting.ts: the table naming the most bones
+// wins, as long as it names the hips. Returns bone name -> humanoid role.
+const detectRig = (boneNames) => {
+  let best = null;
+  for (const table of TABLES) {
+    const roles = new Map();
+    let score = 0;
+    let hips = null;
+    for (const name of boneNames) {
+      const key = plainName(name).toLowerCase();
+      if (!table.bones.has(key)) continue;
+      score += 1;
+      const role = table.bones.get(key);
+      if (role && !Array.from(roles.values()).includes(role)) roles.set(name, role);
+      if (role === "hips") hips ??= name;
+    }
+    if (hips && (!best || score > best.score)) best = { rig: table.rig, roles, hips, score };
+  }
+  if (!best) throw new Error("no known rig (no hips bone)");
+  return best;
+};
+
+const trackBone = (trackName) => trackName.slice(0, trackName.indexOf("."));
+
+// "mixamorig:LeftArm" or VRoid's "J_Bip_L_UpperArm" -> "LeftArm"; bones without
+// a humanoid role keep their plain name
+const retargetBone = (raw, rig) => {
+  const role = rig.roles.get(raw);
+  return (role && roleToBone.get(role)) || plainName(raw);
+};
+
+const encode = (typed) => Buffer.from(typed.buffer, typed.byteOffset, typed.byteLength).toString("base64");
+
+// Snap times to frames; when two keys land on the same frame the later one wins
+const toFrames = (times, itemSize, values) => {
+  const frames = [];
+  const kept = [];
+  for (let i = 0; i < times.length; i++) {
+    const frame = Math.round(times[i] * FPS);
+    if (frames.length && frames[frames.length - 1] === frame) {
+      kept[kept.length - 1] = i;
+      continue;
+    }
+    frames.push(frame);
+    kept.push(i);
+  }
+  const picked = new Float32Array(kept.length * itemSize);
+  kept.forEach((src, dst) => picked.set(values.subarray(src * itemSize, (src + 1) * itemSize), dst * itemSize));
+  return { frames: Uint16Array.from(frames), values: picked };
+};
+
+const compileTrack = (track, rig) => {
+  const source = trackBone(track.name);
+  const property = track.name.slice(source.length + 1);
+  if (source === rig.hips && property === "position") return null;
+  const bone = retargetBone(source, rig);
+  const quaternion = track.ValueTypeName === "quaternion";
+  const itemSize = track.getValueSize();
+  const { frames, values } = toFrames(track.times, itemSize, track.values);
+  const name = `${bone}.${property}`;
+  if (quaternion) {
+    const quantized = Int16Array.from(values, (v) => Math.round(Math.max(-1, Math.min(1, v)) * 32767));
+    return { name, type: "quaternion", frames: encode(frames), values: encode(quantized) };
+  }
+  let min = Infinity;
+  let max = -Infinity;
+  for (const v of values) {
+    min = Math.min(min, v);
+    max = Math.max(max, v);
+  }
+  const step = max > min ? (max - min) / 65535 : 0;
+  const quantized = Uint16Array.from(values, (v) => (step ? Math.round((v - min) / step) : 0));
+  return { name, type: "vector", frames: encode(frames), values: encode(quantized), min, step };
+};
+
+const round = (v) => Math.round(v * 1e5) / 1e5;
+
+// restPoseOf in retargeting.ts: each bone's rest transform chained down from the
+// top bones, as [px, py, pz, qx, qy, qz, qw] keyed by its renamed bone
+const compileRest = (group, rig) => {
+  const rest = {};
+  const place = (bone, origin) => {
+    const quaternion = origin.quaternion.clone().multiply(bone.quaternion);
+    const position = bone.position.clone().applyQuaternion(origin.quaternion).add(origin.position);
+    rest[retargetBone(bone.name, rig)] = [...position.toArray(), ...quaternion.toArray()].map(round);
+    bone.children.forEach((child) => {
+      if (child.isBone) place(child, { position, quaternion });
+    });
+  };
+  const top = { position: new Vector3(), quaternion: new Quaternion() };
+  group.traverse((object) => {
+    if (object.isBone && !object.parent?.isBone) place(object, top);
+  });
+  return rest;
+};
+
+const compileFile = async (file, url) => {
+  const data = await readFile(file);
+  const group = new FBXLoader().parse(data.buffer.slice(data.byteOffset, data.byteOffset + data.byteLength), "");
+  const clip = group.animations?.[0];
+  if (!clip) throw new Error("no animation");
+  const rig = detectRig(Array.from(new Set(clip.tracks.map((track) => trackBone(track.name)))));
+  return {
+    url,
+    name: path.basename(file, ".fbx"),
+    duration: clip.duration,
+    tracks: clip.tracks.map((track) => compileTrack(track, rig)).filter(Boolean),
+    rest: compileRest(group, rig),
+  };
+};
+
+const main = async () => {
+  await rm(OUT_DIR, { recursive: true, force: true });
+  await mkdir(OUT_DIR, { recursive: true });
+  const index = {};
+  let failed = 0;
+  for (const [pack, dir] of Object.entries(PACKS)) {
+    const names = (await readdir(path.join(PUBLIC, dir))).filter((f) => f.toLowerCase().endsWith(".fbx")).sort();
+    const clips = [];
+    let sourceBytes = 0;
+    for (const name of names) {
+      const url = `/${dir}/${name}`;
+      const file = path.join(PUBLIC, dir, name);
+      try {
+        clips.push(await compileFile(file, url));
+        sourceBytes += (await stat(file)).size;
+      } catch (err) {
+        failed += 1;
+        console.error(`  ${url}: ${err.message}`);
+      }
+    }
+    if (!clips.length) continue;
+    const json = JSON.stringify({ version: BUNDLE_VERSION, fps: FPS, clips });
+    await writeFile(path.join(OUT_DIR, `${pack}.json`), json);
+    for (const clip of clips) index[clip.url] = `/animations/${pack}.json`;
+    const kb = (bytes) => `${Math.round(bytes / 1024)} KB`;
+    console.log(`${pack}: ${clips.length} clips, ${kb(sourceBytes)} FBX -> ${kb(json.length)}`);
+  }
+  await writeFile(path.join(OUT_DIR, "index.json"), JSON.stringify({ version: BUNDLE_VERSION, clips: index }, null, 2));
+  if (failed) {
+    console.error(`${failed} file(s) could not be compiled`);
+    process.exitCode = 1;
+  }
+};
+
+await main();